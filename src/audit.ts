@@ -0,0 +1,225 @@
+import {
+  failureOf,
+  serializeError,
+  toDecision,
+  type Failure,
+  type SerializedError,
+} from "./decision.js";
+import type { ActionMetadata } from "./describe.js";
+import { idOf, isPromiseLike } from "./utils.js";
+
+/**
+ * A record of a single permission evaluation.
+ *
+ * @public
+ */
+export type AuditEvent = {
+  /** When the evaluation started, as an ISO 8601 string */
+  timestamp: string;
+  /** The resource that was checked */
+  resource: string;
+  /** The action that was checked */
+  action: string;
+  /** Identifier of the actor, if one could be extracted */
+  actorId: string | undefined;
+  /** Identifier of the entity, if one could be extracted */
+  entityId: string | undefined;
+  /** Whether the action was permitted */
+  allowed: boolean;
+  /** Explanation provided by the handler, if any */
+  reason?: string;
+  /** Code provided by the handler, if any */
+  code?: string;
+  /** Time spent evaluating, in milliseconds */
+  durationMs: number;
+  /** Set when the handler timed out or threw, whether or not the check threw */
+  failure?: Failure;
+  /** The error thrown during evaluation, or behind a `failure` */
+  error?: SerializedError;
+  /** Tags declared on the action, if any */
+  tags?: readonly string[];
+  /** Risk level declared on the action, if any */
+  riskLevel?: ActionMetadata["riskLevel"];
+  /** Set when the action is declared deprecated */
+  deprecated?: boolean | string;
+  /** Set when the action is declared to require multi-factor authentication */
+  requiresMfa?: boolean;
+};
+
+/**
+ * Destination for audit events.
+ *
+ * @public
+ */
+export interface AuditSink {
+  /** Records a single event */
+  write(event: AuditEvent): void | Promise<void>;
+}
+
+/**
+ * Audit settings for `createPermissions()`.
+ *
+ * @example
+ * ```typescript
+ * const permissions = createPermissions([postPermissions], {
+ *   audit: {
+ *     sink: createNdjsonAuditSink((line) => logFile.write(line)),
+ *     actorId: (actor) => actor.email
+ *   }
+ * });
+ * ```
+ *
+ * @public
+ */
+export type AuditOptions = {
+  /** Where events are written */
+  sink: AuditSink;
+  /** Extracts the actor identifier (defaults to the `actorId` option) */
+  actorId?: (actor: any) => string | undefined;
+  /** Extracts the entity identifier (defaults to its `id` property) */
+  entityId?: (entity: any) => string | undefined;
+  /** Called when the sink fails; permission checks are never affected (defaults to `console.error`) */
+  onError?: (error: unknown, event: AuditEvent) => void;
+};
+
+/**
+ * An audit sink that keeps events in memory, useful for tests and debugging.
+ *
+ * @public
+ */
+export type MemoryAuditSink = AuditSink & {
+  /** Every event written so far */
+  readonly events: AuditEvent[];
+  /** Removes all recorded events */
+  clear(): void;
+};
+
+/**
+ * Creates an audit sink that keeps events in memory.
+ *
+ * @example
+ * ```typescript
+ * const sink = createMemoryAuditSink();
+ * const permissions = createPermissions([postPermissions], { audit: { sink } });
+ *
+ * permissions.can('post', 'create', { actor: user });
+ * sink.events; // [{ resource: 'post', action: 'create', allowed: false, ... }]
+ * ```
+ *
+ * @public
+ */
+export function createMemoryAuditSink(): MemoryAuditSink {
+  const events: AuditEvent[] = [];
+  return {
+    events,
+    write(event) {
+      events.push(event);
+    },
+    clear() {
+      events.length = 0;
+    },
+  };
+}
+
+/**
+ * Creates an audit sink that serializes every event as one line of JSON
+ * (newline-delimited JSON) and hands it to `write`.
+ *
+ * @param write - Receives each serialized line, including the trailing newline
+ *
+ * @example
+ * ```typescript
+ * const sink = createNdjsonAuditSink((line) => process.stdout.write(line));
+ * ```
+ *
+ * @public
+ */
+export function createNdjsonAuditSink(
+  write: (line: string) => unknown
+): AuditSink {
+  return {
+    async write(event) {
+      await write(`${JSON.stringify(event)}\n`);
+    },
+  };
+}
+
+// Run `evaluate` and report its outcome to the audit sink, passing the
+// result (or error) through untouched. Events carry the metadata the action
+// declared for filtering, but not its description.
+export function audited(
+  options: AuditOptions & { actorId: (actor: any) => string | undefined },
+  resource: string,
+  action: string,
+  ctx: any,
+  evaluate: () => unknown,
+  metadata: ActionMetadata = {}
+) {
+  const { sink, actorId, entityId = idOf, onError = console.error } = options;
+  const timestamp = new Date().toISOString();
+  const start = performance.now();
+
+  const emit = (result: unknown, error?: unknown) => {
+    const decision = toDecision(
+      resource,
+      action,
+      result,
+      performance.now() - start
+    );
+    const event: AuditEvent = {
+      timestamp,
+      resource,
+      action,
+      actorId: actorId(ctx?.actor),
+      entityId: ctx?.entity === undefined ? undefined : entityId(ctx.entity),
+      allowed: decision.allowed,
+      durationMs: decision.durationMs,
+    };
+    if (decision.reason !== undefined) event.reason = decision.reason;
+    if (decision.code !== undefined) event.code = decision.code;
+    if (decision.failure !== undefined) event.failure = decision.failure;
+    if (decision.error !== undefined) event.error = decision.error;
+    if (error !== undefined) {
+      event.failure = failureOf(error);
+      event.error = serializeError(error);
+    }
+    const { tags, riskLevel, deprecated, requiresMfa } = metadata;
+    if (tags !== undefined) event.tags = tags;
+    if (riskLevel !== undefined) event.riskLevel = riskLevel;
+    if (deprecated) event.deprecated = deprecated;
+    if (requiresMfa !== undefined) event.requiresMfa = requiresMfa;
+
+    try {
+      const written = sink.write(event);
+      if (isPromiseLike(written)) {
+        Promise.resolve(written).catch((error) => onError(error, event));
+      }
+    } catch (error) {
+      onError(error, event);
+    }
+  };
+
+  let result: unknown;
+  try {
+    result = evaluate();
+  } catch (error) {
+    emit(undefined, error);
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).then(
+      (value) => {
+        emit(value);
+        return value;
+      },
+      (error) => {
+        emit(undefined, error);
+        throw error;
+      }
+    );
+  }
+
+  emit(result);
+  return result;
+}
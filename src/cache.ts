@@ -0,0 +1,156 @@
+import { idOf, isPromiseLike } from "./utils.js";
+
+/**
+ * Settings for the decision cache of `createPermissions()`.
+ *
+ * Every cached decision is keyed by resource, action and the keys produced for
+ * the actor, entity and attributes. A check whose actor or entity produces no
+ * key is never cached.
+ *
+ * @public
+ */
+export type CacheOptions = {
+  /**
+   * How long decisions stay in the instance-wide cache, in milliseconds.
+   * Without a TTL only `permissions.scope()` children memoize decisions.
+   */
+  ttl?: number;
+  /**
+   * Most decisions a cache holds, dropping the least recently used ones beyond
+   * it (defaults to unbounded)
+   */
+  maxEntries?: number;
+  /** Identifies an actor (defaults to the `actorId` option) */
+  actorKey?: (actor: any) => string | undefined;
+  /** Identifies an entity (defaults to its `id` property) */
+  entityKey?: (entity: any) => string | undefined;
+  /** Identifies a set of attributes (defaults to `JSON.stringify`) */
+  attributesKey?: (attributes: any) => string | undefined;
+};
+
+/**
+ * Selects the cached decisions to drop with `permissions.invalidate()`.
+ * Every provided field must match; an empty filter drops everything.
+ *
+ * @public
+ */
+export type InvalidateFilter = {
+  /** Drop decisions for this resource */
+  resource?: string;
+  /** Drop decisions made for this actor */
+  actor?: unknown;
+  /** Drop decisions made about this entity */
+  entity?: unknown;
+};
+
+type CacheKeys = {
+  resource: string;
+  action: string;
+  actor: string;
+  entity: string;
+  attributes: string;
+};
+
+type CacheEntry = {
+  keys: CacheKeys;
+  value: unknown;
+  expires: number;
+};
+
+export type DecisionCache = ReturnType<typeof createDecisionCache>;
+
+export function createDecisionCache(options: CacheOptions, ttl = Infinity) {
+  const {
+    maxEntries = Infinity,
+    actorKey = idOf,
+    entityKey = idOf,
+    attributesKey = (attributes: unknown) => JSON.stringify(attributes),
+  } = options;
+  // In least recently used order, as hits move entries to the end
+  const entries = new Map<string, CacheEntry>();
+  let nextSweep = Date.now() + ttl;
+
+  function keysFor(
+    resource: string,
+    action: string,
+    ctx: { actor?: unknown; entity?: unknown; attributes?: unknown }
+  ): CacheKeys | undefined {
+    const actor = actorKey(ctx?.actor);
+    const entity = ctx?.entity === undefined ? "" : entityKey(ctx.entity);
+    const attributes =
+      ctx?.attributes === undefined ? "" : attributesKey(ctx.attributes);
+    if (actor === undefined || entity === undefined || attributes === undefined)
+      return undefined;
+    return { resource, action, actor, entity, attributes };
+  }
+
+  // Drop every expired entry, at most once per TTL, so decisions that are never
+  // looked up again do not pile up
+  function sweep(now: number) {
+    if (now < nextSweep) return;
+    nextSweep = now + ttl;
+    for (const [key, entry] of entries) {
+      if (entry.expires <= now) entries.delete(key);
+    }
+  }
+
+  function matches(keys: CacheKeys, filter: InvalidateFilter) {
+    return (
+      (filter.resource === undefined || keys.resource === filter.resource) &&
+      (filter.actor === undefined || keys.actor === actorKey(filter.actor)) &&
+      (filter.entity === undefined || keys.entity === entityKey(filter.entity))
+    );
+  }
+
+  return {
+    keysFor,
+
+    // Return the cached value for `keys`, or run `compute` and remember its
+    // result. Pending promises are stored too, so concurrent identical checks
+    // share a single evaluation; rejected promises are forgotten. Expired
+    // entries are dropped when looked up or swept.
+    remember(keys: CacheKeys, compute: () => unknown) {
+      const key = JSON.stringify([
+        keys.resource,
+        keys.action,
+        keys.actor,
+        keys.entity,
+        keys.attributes,
+      ]);
+      const now = Date.now();
+      const cached = entries.get(key);
+      if (cached) {
+        entries.delete(key);
+        if (cached.expires > now) {
+          entries.set(key, cached);
+          return cached.value;
+        }
+      }
+      sweep(now);
+
+      const value = compute();
+      const entry = { keys, value, expires: Date.now() + ttl };
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      if (isPromiseLike(value)) {
+        Promise.resolve(value).catch(() => {
+          if (entries.get(key) === entry) entries.delete(key);
+        });
+      }
+      return value;
+    },
+
+    // How many decisions are held, expired or not
+    get size() {
+      return entries.size;
+    },
+
+    invalidate(filter: InvalidateFilter = {}) {
+      for (const [key, entry] of entries) {
+        if (matches(entry.keys, filter)) entries.delete(key);
+      }
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import { isAllowed, isVerdict, type ActionResult } from "./decision.js";
+import { chain, type MaybePromise } from "./utils.js";
+
+/**
+ * Any function usable as an action handler or predicate.
+ *
+ * @public
+ */
+export type HandlerLike = (args: any) => ActionResult | Promise<ActionResult>;
+
+// The argument type of a single handler; handlers without parameters accept anything
+type HandlerArgs<H> = H extends (args: infer P) => any ? P : never;
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (
+  x: infer I
+) => void
+  ? I
+  : never;
+
+/**
+ * The arguments a combination of handlers needs: the intersection of what
+ * every handler needs, so an entity or attributes required by any of them stay
+ * required.
+ *
+ * @public
+ */
+export type CombinedArgs<H extends readonly HandlerLike[]> =
+  UnionToIntersection<HandlerArgs<H[number]>>;
+
+/**
+ * The result of a combination of handlers: synchronous when every handler is
+ * synchronous.
+ *
+ * @public
+ */
+export type CombinedResult<
+  H extends readonly HandlerLike[],
+  R = ActionResult
+> = [Extract<ReturnType<H[number]>, PromiseLike<unknown>>] extends [never]
+  ? R
+  : R | Promise<R>;
+
+/**
+ * Combines handlers into one that allows the action only when every handler
+ * allows it. Handlers run in order and evaluation stops at the first denial,
+ * whose result (including a `deny()` reason) becomes the combined result.
+ * Without handlers the action is denied, like with `anyOf()`.
+ *
+ * @example
+ * ```typescript
+ * const canPublish = allOf(
+ *   ({ actor }: { actor: User }) => actor.verified,
+ *   ({ actor, entity }: { actor: User; entity: Post }) => actor.id === entity.authorId
+ * );
+ * // (args: { actor: User } & { actor: User; entity: Post }) => ActionResult
+ * ```
+ *
+ * @public
+ */
+export function allOf<const H extends readonly HandlerLike[]>(
+  ...handlers: H
+): (args: CombinedArgs<H>) => CombinedResult<H> {
+  // An empty combination fails closed; otherwise the last allowing result is kept
+  return (args) =>
+    sequence(handlers, args, (result) => !isAllowed(result), false) as any;
+}
+
+/**
+ * Combines handlers into one that allows the action when any handler allows
+ * it. Handlers run in order and evaluation stops at the first allowing result,
+ * which becomes the combined result.
+ *
+ * @example
+ * ```typescript
+ * const canEdit = anyOf(isAdmin, isAuthor);
+ * ```
+ *
+ * @public
+ */
+export function anyOf<const H extends readonly HandlerLike[]>(
+  ...handlers: H
+): (args: CombinedArgs<H>) => CombinedResult<H> {
+  return (args) => sequence(handlers, args, isAllowed, false) as any;
+}
+
+/**
+ * Inverts a handler: allows the action when the handler denies it. A
+ * `notApplicable()` result is returned unchanged, since the handler has no
+ * opinion to invert.
+ *
+ * @example
+ * ```typescript
+ * const canComment = allOf(isMember, not(isBanned));
+ * ```
+ *
+ * @public
+ */
+export function not<H extends HandlerLike>(
+  handler: H
+): (args: CombinedArgs<[H]>) => CombinedResult<[H]> {
+  return (args) =>
+    chain(handler(args), (result) =>
+      isVerdict(result) && result.notApplicable ? result : !isAllowed(result)
+    ) as any;
+}
+
+/**
+ * Runs `handler` only when `predicate` allows it, denying the action otherwise.
+ *
+ * @example
+ * ```typescript
+ * const canDelete = when(
+ *   ({ entity }: { actor: User; entity: Post }) => !entity.published,
+ *   isAuthor
+ * );
+ * ```
+ *
+ * @public
+ */
+export function when<P extends HandlerLike, H extends HandlerLike>(
+  predicate: P,
+  handler: H
+): (args: CombinedArgs<[P, H]>) => CombinedResult<[P, H]> {
+  return (args) =>
+    chain(predicate(args), (matched) =>
+      isAllowed(matched) ? handler(args) : false
+    ) as any;
+}
+
+/**
+ * Picks the handler of the first case whose predicate allows it, denying the
+ * action when no case matches. Predicates run in order, and only the matching
+ * case's handler runs.
+ *
+ * @example
+ * ```typescript
+ * const canRead = firstMatch(
+ *   [isAdmin, () => true],
+ *   [({ entity }: { actor: User; entity: Post }) => entity.published, isMember],
+ *   [() => true, isAuthor]
+ * );
+ * ```
+ *
+ * @public
+ */
+export function firstMatch<
+  const C extends readonly (readonly [HandlerLike, HandlerLike])[]
+>(...cases: C): (args: CombinedArgs<C[number]>) => CombinedResult<C[number]> {
+  return (args) => {
+    const next = (index: number): MaybePromise<ActionResult> => {
+      const current = cases[index];
+      if (!current) return false;
+      const [predicate, handler] = current;
+      return chain(predicate(args), (matched) =>
+        isAllowed(matched) ? handler(args) : next(index + 1)
+      );
+    };
+    return next(0) as any;
+  };
+}
+
+// Run handlers in order until `stop` holds for a result, returning that result,
+// the last result when none stops, or `fallback` when there are no handlers.
+function sequence(
+  handlers: readonly HandlerLike[],
+  args: unknown,
+  stop: (result: ActionResult) => boolean,
+  fallback: ActionResult
+): MaybePromise<ActionResult> {
+  const next = (
+    index: number,
+    last: ActionResult
+  ): MaybePromise<ActionResult> => {
+    const handler = handlers[index];
+    if (!handler) return last;
+    return chain(handler(args), (result) =>
+      stop(result) ? result : next(index + 1, result)
+    );
+  };
+  return next(0, fallback);
+}
@@ -0,0 +1,242 @@
+import type {
+  CombinedArgs,
+  CombinedResult,
+  HandlerLike,
+} from "./combinators.js";
+import {
+  allow,
+  deny,
+  isAllowed,
+  isVerdict,
+  notApplicable,
+  type ActionResult,
+} from "./decision.js";
+import { chain, matchesName, type MaybePromise } from "./utils.js";
+
+/**
+ * How the outcomes of several policies for the same check are combined,
+ * modeled on XACML:
+ * - `deny-overrides` - any deny wins, otherwise any permit wins
+ * - `permit-overrides` - any permit wins, otherwise any deny wins
+ * - `first-applicable` - the first policy that applies decides
+ * - `only-one-applicable` - exactly one policy may apply; more than one denies
+ *
+ * When no policy applies the action is denied as not applicable.
+ *
+ * @public
+ */
+export type CombiningAlgorithm =
+  | "deny-overrides"
+  | "permit-overrides"
+  | "first-applicable"
+  | "only-one-applicable";
+
+/**
+ * A policy with a fixed effect that applies when its condition allows it,
+ * created with `permit()` or `forbid()`.
+ *
+ * @template H - The condition's handler type
+ *
+ * @public
+ */
+export type Rule<H extends HandlerLike = HandlerLike> = {
+  /** What the rule decides when it applies */
+  effect: "permit" | "deny";
+  /** Whether the rule applies */
+  condition: H;
+  /** Explanation reported when the rule decides */
+  reason?: string;
+  /** Code reported when the rule decides */
+  code?: string;
+  /** Resources an instance-wide rule applies to, `*` patterns included (defaults to all) */
+  resources?: readonly string[];
+  /** Actions an instance-wide rule applies to, `*` patterns included (defaults to all) */
+  actions?: readonly string[];
+};
+
+/**
+ * Options accepted by `permit()` and `forbid()`.
+ *
+ * @public
+ */
+export type RuleOptions = Omit<Rule, "effect" | "condition">;
+
+// The conditions of a list of rules, for the combinator argument types
+type ConditionsOf<R extends readonly Rule[]> = {
+  [K in keyof R]: R[K]["condition"];
+};
+
+// What a single policy contributed to a check
+type Outcome = {
+  effect: "permit" | "deny" | "not-applicable";
+  result: ActionResult;
+};
+
+type Evaluator = (args: unknown) => MaybePromise<Outcome>;
+
+// Rules behind handlers created with `policies()`
+const rulesByHandler = new WeakMap<Function, readonly Rule[]>();
+
+/**
+ * Creates a rule that permits the action when `condition` allows it.
+ *
+ * @example
+ * ```typescript
+ * permit(({ actor, entity }: { actor: User; entity: Post }) => actor.id === entity.authorId)
+ * ```
+ *
+ * @public
+ */
+export function permit<H extends HandlerLike>(
+  condition: H,
+  options: RuleOptions = {}
+): Rule<H> {
+  return { effect: "permit", condition, ...options };
+}
+
+/**
+ * Creates a rule that denies the action when `condition` allows it. Pass it to
+ * the `rules` option of `createPermissions()` to apply it across resources.
+ *
+ * @example
+ * ```typescript
+ * const permissions = createPermissions([postPermissions, commentPermissions], {
+ *   rules: [
+ *     forbid(({ actor }: { actor: User }) => actor.suspended, {
+ *       actions: ['create', 'edit', 'delete'],
+ *       reason: 'account suspended',
+ *       code: 'SUSPENDED'
+ *     })
+ *   ]
+ * });
+ * ```
+ *
+ * @public
+ */
+export function forbid<H extends HandlerLike>(
+  condition: H,
+  options: RuleOptions = {}
+): Rule<H> {
+  return { effect: "deny", condition, ...options };
+}
+
+/**
+ * Combines several rules into the handler of one action. Within a permissions
+ * instance they are combined, together with the instance-wide rules, using
+ * the resource's or instance's `CombiningAlgorithm`; called directly they use
+ * `deny-overrides`.
+ *
+ * @example
+ * ```typescript
+ * const postPermissions = createPermissionDefinition('post', {
+ *   edit: policies(
+ *     permit(isAuthor),
+ *     permit(isEditor),
+ *     forbid(({ entity }: { actor: User; entity: Post }) => entity.locked, {
+ *       reason: 'post is locked'
+ *     })
+ *   )
+ * });
+ * ```
+ *
+ * @public
+ */
+export function policies<const R extends readonly Rule[]>(
+  ...rules: R
+): (args: CombinedArgs<ConditionsOf<R>>) => CombinedResult<ConditionsOf<R>> {
+  const handler = (args: unknown) =>
+    combine(rules.map(ruleEvaluator), "deny-overrides", args) as any;
+  rulesByHandler.set(handler, rules);
+  return handler;
+}
+
+// Whether an instance-wide rule targets a resource and action
+export function targets(
+  rule: Rule,
+  resource: string,
+  action: string,
+  separator?: string
+) {
+  const matches = (patterns: readonly string[] | undefined, name: string) =>
+    patterns?.some((pattern) => matchesName(pattern, name, separator)) ?? true;
+  return matches(rule.resources, resource) && matches(rule.actions, action);
+}
+
+// Whether a handler was created with `policies()`
+export function hasRules(handler: HandlerLike) {
+  return rulesByHandler.has(handler);
+}
+
+// The policies behind an action handler: the rules given to `policies()`, or
+// the handler itself, whose result decides its effect
+export function evaluatorsOf(handler: HandlerLike): Evaluator[] {
+  const rules = rulesByHandler.get(handler);
+  if (rules) return rules.map(ruleEvaluator);
+  return [(args) => chain(handler(args), outcomeOf)];
+}
+
+export function ruleEvaluator(rule: Rule): Evaluator {
+  return (args) =>
+    chain(rule.condition(args), (matched) =>
+      isAllowed(matched)
+        ? {
+            effect: rule.effect,
+            result:
+              rule.effect === "permit"
+                ? allow(rule.reason, rule.code)
+                : deny(rule.reason, rule.code),
+          }
+        : { effect: "not-applicable", result: notApplicable() }
+    );
+}
+
+// Evaluate policies in order with the given algorithm, stopping as soon as
+// the outcome is known, and return the deciding policy's result
+export function combine(
+  evaluators: readonly Evaluator[],
+  algorithm: CombiningAlgorithm,
+  args: unknown
+): MaybePromise<ActionResult> {
+  const decisive: Outcome["effect"] | undefined =
+    algorithm === "deny-overrides"
+      ? "deny"
+      : algorithm === "permit-overrides"
+      ? "permit"
+      : undefined;
+
+  const next = (
+    index: number,
+    applied: Outcome[],
+    skipped?: ActionResult
+  ): MaybePromise<ActionResult> => {
+    const evaluate = evaluators[index];
+    if (!evaluate) {
+      // Only non-decisive outcomes are left, e.g. permits under deny-overrides
+      return applied.length > 0
+        ? applied[0]!.result
+        : skipped ?? notApplicable();
+    }
+
+    return chain(evaluate(args), (outcome) => {
+      if (outcome.effect === "not-applicable") {
+        return next(index + 1, applied, outcome.result);
+      }
+      if (outcome.effect === decisive || algorithm === "first-applicable") {
+        return outcome.result;
+      }
+      if (algorithm === "only-one-applicable" && applied.length > 0) {
+        return deny("More than one policy applies", "MULTIPLE_APPLICABLE");
+      }
+      return next(index + 1, [...applied, outcome], skipped);
+    });
+  };
+
+  return next(0, []);
+}
+
+function outcomeOf(result: ActionResult): Outcome {
+  if (isVerdict(result) && result.notApplicable) {
+    return { effect: "not-applicable", result };
+  }
+  return { effect: isAllowed(result) ? "permit" : "deny", result };
+}
@@ -0,0 +1,225 @@
+import { HandlerTimeoutError } from "./errors.js";
+import { ArgsValidationError } from "./validation.js";
+
+const VERDICT = Symbol.for("access-mini.verdict");
+
+/**
+ * A rich handler result created with `allow()` or `deny()`, carrying an optional
+ * explanation alongside the outcome.
+ *
+ * @public
+ */
+export type Verdict = {
+  /** Whether the action is permitted */
+  allowed: boolean;
+  /** Human readable explanation of the outcome */
+  reason?: string;
+  /** Machine readable code for the outcome */
+  code?: string;
+  /** Set when no policy applied to the check, see `notApplicable()` */
+  notApplicable?: true;
+  /** Set when the handler timed out or threw and the error policy decided */
+  failure?: Failure;
+  /** The error behind a `failure` */
+  error?: SerializedError;
+  /** @internal */
+  readonly [VERDICT]: true;
+};
+
+/**
+ * Why a handler did not produce a result: it did not settle within its
+ * timeout, its arguments failed validation, or it threw.
+ *
+ * @public
+ */
+export type Failure = "timeout" | "invalid" | "error";
+
+/**
+ * An error reduced to what decisions and audit events report.
+ *
+ * @public
+ */
+export type SerializedError = { name: string; message: string };
+
+/**
+ * The value a permission handler may produce: a plain boolean or a `Verdict`.
+ *
+ * @public
+ */
+export type ActionResult = boolean | Verdict;
+
+/**
+ * The outcome of an explained permission check.
+ *
+ * @example
+ * ```typescript
+ * const decision = await permissions.explain('post', 'edit', { actor: user, entity: post });
+ * if (!decision.allowed) {
+ *   console.warn(`${decision.resource}.${decision.action} denied: ${decision.reason}`);
+ * }
+ * ```
+ *
+ * @public
+ */
+export type Decision = {
+  /** Whether the action is permitted */
+  allowed: boolean;
+  /** The resource that was checked */
+  resource: string;
+  /** The action that was checked */
+  action: string;
+  /** Explanation provided by the handler, if any */
+  reason?: string;
+  /** Code provided by the handler, if any */
+  code?: string;
+  /** Set when no policy applied to the check; the action is denied */
+  notApplicable?: true;
+  /** Set when the handler timed out or threw, see `ErrorPolicy` */
+  failure?: Failure;
+  /** The error behind a `failure` */
+  error?: SerializedError;
+  /** Time spent evaluating the handler, in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Creates an allowing handler result, optionally with an explanation.
+ *
+ * @param reason - Why the action is allowed
+ * @param code - Machine readable code for the outcome
+ * @returns A `Verdict` that permits the action
+ *
+ * @example
+ * ```typescript
+ * edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+ *   actor.id === entity.authorId ? allow('author') : deny('not the author', 'NOT_AUTHOR')
+ * ```
+ *
+ * @public
+ */
+export function allow(reason?: string, code?: string): Verdict {
+  return createVerdict(true, reason, code);
+}
+
+/**
+ * Creates a denying handler result, optionally with an explanation.
+ *
+ * @param reason - Why the action is denied
+ * @param code - Machine readable code for the outcome
+ * @returns A `Verdict` that denies the action
+ *
+ * @public
+ */
+export function deny(reason?: string, code?: string): Verdict {
+  return createVerdict(false, reason, code);
+}
+
+/**
+ * Creates a handler result stating that the handler has no opinion on the
+ * check. It denies the action on its own, but lets other policies decide when
+ * several apply, see `CombiningAlgorithm`.
+ *
+ * @param reason - Why the handler does not apply
+ * @returns A denying `Verdict` marked as not applicable
+ *
+ * @example
+ * ```typescript
+ * review: ({ entity }: { actor: User; entity: Post }) =>
+ *   entity.published ? notApplicable('only drafts are reviewed') : true
+ * ```
+ *
+ * @public
+ */
+export function notApplicable(reason?: string): Verdict {
+  const verdict = createVerdict(false, reason);
+  verdict.notApplicable = true;
+  return verdict;
+}
+
+/**
+ * Checks whether a handler result is a `Verdict` created by `allow()` or `deny()`.
+ *
+ * @public
+ */
+export function isVerdict(value: unknown): value is Verdict {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<symbol, unknown>)[VERDICT] === true
+  );
+}
+
+function createVerdict(
+  allowed: boolean,
+  reason?: string,
+  code?: string
+): Verdict {
+  const verdict = { allowed } as Verdict;
+  if (reason !== undefined) verdict.reason = reason;
+  if (code !== undefined) verdict.code = code;
+  Object.defineProperty(verdict, VERDICT, { value: true });
+  return verdict;
+}
+
+// Reduce a handler result to the value returned by the boolean APIs. Plain
+// values pass through untouched so existing handlers behave exactly as before.
+export function toAllowed(result: unknown): boolean {
+  return isVerdict(result) ? result.allowed : (result as boolean);
+}
+
+// Whether a handler result permits the action. Anything other than `true` or
+// an allowing verdict is treated as a denial.
+export function isAllowed(result: unknown): boolean {
+  return isVerdict(result) ? result.allowed : result === true;
+}
+
+// Build a `Decision` from a handler result, treating it like `isAllowed()`.
+export function toDecision(
+  resource: string,
+  action: string,
+  result: unknown,
+  durationMs: number
+): Decision {
+  const decision: Decision = {
+    allowed: isAllowed(result),
+    resource,
+    action,
+    durationMs,
+  };
+  if (isVerdict(result)) {
+    if (result.reason !== undefined) decision.reason = result.reason;
+    if (result.code !== undefined) decision.code = result.code;
+    if (result.notApplicable) decision.notApplicable = true;
+    if (result.failure !== undefined) decision.failure = result.failure;
+    if (result.error !== undefined) decision.error = result.error;
+  }
+  return decision;
+}
+
+// Mark the result an error policy settled on with the failure behind it
+export function failed(
+  result: ActionResult,
+  failure: Failure,
+  error: unknown
+): Verdict {
+  const verdict = isVerdict(result)
+    ? createVerdict(result.allowed, result.reason, result.code)
+    : createVerdict(result === true);
+  if (isVerdict(result) && result.notApplicable) verdict.notApplicable = true;
+  verdict.failure = failure;
+  verdict.error = serializeError(error);
+  return verdict;
+}
+
+// Classify the error a check failed with
+export function failureOf(error: unknown): Failure {
+  if (error instanceof HandlerTimeoutError) return "timeout";
+  if (error instanceof ArgsValidationError) return "invalid";
+  return "error";
+}
+
+export function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: "Error", message: String(error) };
+}
@@ -0,0 +1,90 @@
+import type { PermissionDefinition } from "./index.js";
+
+/**
+ * How much harm a wrongly permitted action could do.
+ *
+ * @public
+ */
+export type RiskLevel = "low" | "medium" | "high" | "critical";
+
+/**
+ * What an action declares about itself for introspection, given alongside its
+ * `handler` in `createPermissionDefinition()` or per action as `metadata`.
+ * Whether an entity or attributes are required only exists in the handler's
+ * types, so it is reported when declared here.
+ *
+ * @public
+ */
+export type ActionMetadata = {
+  /** What the action permits, for admin UIs and generated docs */
+  description?: string;
+  /** Labels to group and search actions by */
+  tags?: readonly string[];
+  /** Whether the action is being phased out, or a note on what replaces it */
+  deprecated?: boolean | string;
+  /** How much harm a wrongly permitted action could do */
+  riskLevel?: RiskLevel;
+  /** Whether the actor must have completed multi-factor authentication */
+  requiresMfa?: boolean;
+  /** Whether checks of the action need an entity */
+  requiresEntity?: boolean;
+  /** Whether checks of the action need attributes */
+  requiresAttributes?: boolean;
+  /** Whether the handler resolves asynchronously (defaults to whether it is an `async` function) */
+  async?: boolean;
+};
+
+/**
+ * An action as reported by `permissions.describe()`.
+ *
+ * @public
+ */
+export type ActionDescription = {
+  action: string;
+  description?: string;
+  tags: readonly string[];
+  deprecated?: boolean | string;
+  riskLevel?: RiskLevel;
+  requiresMfa?: boolean;
+  /** Whether checks need an entity, when declared */
+  requiresEntity?: boolean;
+  /** Whether checks need attributes, when declared */
+  requiresAttributes?: boolean;
+  /** Whether the handler resolves asynchronously */
+  async: boolean;
+};
+
+/**
+ * A resource as reported by `permissions.describe()`.
+ *
+ * @public
+ */
+export type ResourceDescription = {
+  resource: string;
+  description?: string;
+  actions: ActionDescription[];
+};
+
+const AsyncFunction = (async () => {}).constructor;
+
+// Describe a definition from its metadata and handlers, leaving out the `*`
+// fallback handler
+export function describeDefinition(
+  def: PermissionDefinition<any, any>
+): ResourceDescription {
+  const actions = Object.keys(def.handlers)
+    .filter((action) => action !== "*")
+    .map((action): ActionDescription => {
+      const { tags = [], ...metadata } = def.metadata?.[action] ?? {};
+      return {
+        action,
+        ...metadata,
+        tags,
+        async: metadata.async ?? def.handlers[action] instanceof AsyncFunction,
+      };
+    });
+
+  return def.description === undefined
+    ? { resource: def.resource, actions }
+    : { resource: def.resource, description: def.description, actions };
+}
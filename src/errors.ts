@@ -0,0 +1,153 @@
+/**
+ * Thrown when a permission check references a resource that has no registered
+ * permission definition. This indicates a configuration bug rather than a denial.
+ *
+ * @public
+ */
+export class UnknownResourceError extends Error {
+  /** The resource that could not be found */
+  readonly resource: string;
+
+  constructor(resource: string) {
+    super(`No permission definition for resource: ${resource}`);
+    this.name = "UnknownResourceError";
+    this.resource = resource;
+  }
+}
+
+/**
+ * Thrown by `permissions.add()` when the resource is already registered and
+ * the conflict strategy is `reject`.
+ *
+ * @public
+ */
+export class DuplicateResourceError extends Error {
+  /** The resource that is already registered */
+  readonly resource: string;
+
+  constructor(resource: string) {
+    super(`Permission definition for resource '${resource}' already exists`);
+    this.name = "DuplicateResourceError";
+    this.resource = resource;
+  }
+}
+
+/**
+ * Thrown when a permission check references an action that the resource's
+ * permission definition does not declare.
+ *
+ * @public
+ */
+export class UnknownActionError extends Error {
+  /** The resource that was checked */
+  readonly resource: string;
+  /** The action that could not be found */
+  readonly action: string;
+
+  constructor(resource: string, action: string) {
+    super(`No handler for action '${action}' on resource '${resource}'`);
+    this.name = "UnknownActionError";
+    this.resource = resource;
+    this.action = action;
+  }
+}
+
+/**
+ * The error a handler fails with when it does not settle within its timeout.
+ * Handlers see it as the `reason` of their aborted `signal`.
+ *
+ * @public
+ */
+export class HandlerTimeoutError extends Error {
+  /** The resource that was checked */
+  readonly resource: string;
+  /** The action whose handler timed out */
+  readonly action: string;
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(resource: string, action: string, timeoutMs: number) {
+    super(
+      `Handler for action '${action}' on resource '${resource}' timed out after ${timeoutMs}ms`
+    );
+    this.name = "HandlerTimeoutError";
+    this.resource = resource;
+    this.action = action;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a tenant's permissions, from `permissions.forTenant()`, are used
+ * with a context that belongs to another tenant, or to none. The check is not
+ * evaluated, so one tenant's overrides never decide for another.
+ *
+ * @public
+ */
+export class TenantMismatchError extends Error {
+  /** The tenant the permissions were resolved for */
+  readonly tenantId: string;
+  /** The tenant of the context, if one could be read */
+  readonly contextTenantId: string | undefined;
+
+  constructor(tenantId: string, contextTenantId: string | undefined) {
+    super(
+      contextTenantId === undefined
+        ? `Permissions for tenant '${tenantId}' used without a tenant in the context`
+        : `Permissions for tenant '${tenantId}' used with a context of tenant '${contextTenantId}'`
+    );
+    this.name = "TenantMismatchError";
+    this.tenantId = tenantId;
+    this.contextTenantId = contextTenantId;
+  }
+}
+
+/**
+ * Thrown by `permissions.authorize()` and the builder's `assert` methods when an
+ * action is denied.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await permissions.authorize('post', 'edit', { actor: user, entity: post });
+ * } catch (error) {
+ *   if (error instanceof AuthorizationError) {
+ *     return new Response(error.reason ?? 'Forbidden', { status: 403 });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ *
+ * @public
+ */
+export class AuthorizationError extends Error {
+  /** The resource that was checked */
+  readonly resource: string;
+  /** The action that was denied */
+  readonly action: string;
+  /** Identifier of the actor, as returned by the `actorId` option */
+  readonly actorId: string | undefined;
+  /** Explanation provided by the handler, if any */
+  readonly reason: string | undefined;
+  /** Code provided by the handler, if any */
+  readonly code: string | undefined;
+
+  constructor(details: {
+    resource: string;
+    action: string;
+    actorId?: string;
+    reason?: string;
+    code?: string;
+  }) {
+    super(
+      `Not authorized to ${details.action} ${details.resource}` +
+        (details.reason ? `: ${details.reason}` : "")
+    );
+    this.name = "AuthorizationError";
+    this.resource = details.resource;
+    this.action = details.action;
+    this.actorId = details.actorId;
+    this.reason = details.reason;
+    this.code = details.code;
+  }
+}
@@ -0,0 +1,139 @@
+import { isAllowed, type ActionResult } from "./decision.js";
+import { isPromiseLike, type MaybePromise } from "./utils.js";
+
+/**
+ * Decides whether the actor may see a field. It receives the actor and the
+ * entity being redacted, and may return a boolean or `Verdict`, or a Promise
+ * of either.
+ *
+ * @public
+ */
+export type FieldRule<A = any, E = any> = (args: {
+  actor: A;
+  entity: E;
+}) => ActionResult | Promise<ActionResult>;
+
+/**
+ * Field rules keyed by field name. A nested map applies to the fields of a
+ * nested object, or of every element of a nested array.
+ *
+ * @example
+ * ```typescript
+ * const fields: FieldRules<User> = {
+ *   salary: ({ actor }) => actor.department === 'hr',
+ *   dependents: { ssn: ({ actor }) => actor.department === 'hr' }
+ * };
+ * ```
+ *
+ * @public
+ */
+export type FieldRules<A = any, E = any> = {
+  [field: string]: FieldRule<A, E> | FieldRules<A, E>;
+};
+
+/**
+ * Options accepted by `permissions.redact()`.
+ *
+ * @public
+ */
+export type RedactOptions = {
+  /**
+   * Replaces hidden fields instead of removing them: a value, or a function
+   * computing one from the hidden value and its dotted path.
+   */
+  mask?: unknown;
+};
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * The type of an entity after `permissions.redact()`: every field with a rule
+ * becomes optional, in nested objects and arrays as well.
+ *
+ * @public
+ */
+export type Redacted<E, F> = E extends readonly (infer I)[]
+  ? Redacted<I, F>[]
+  : E extends object
+  ? Simplify<
+      {
+        [K in keyof E as K extends keyof F
+          ? F[K] extends (...args: any[]) => any
+            ? K
+            : never
+          : never]?: E[K];
+      } & {
+        [K in keyof E as K extends keyof F
+          ? F[K] extends (...args: any[]) => any
+            ? never
+            : K
+          : K]: K extends keyof F ? Redacted<E[K], F[K]> : E[K];
+      }
+    >
+  : E;
+
+// Return a copy of `entity` without the fields the actor may not see. Every
+// rule runs once per entity, and the result stays synchronous when every rule
+// is. Arrays of entities are redacted one entity at a time.
+export function redactFields(
+  fields: FieldRules,
+  args: { actor: unknown; entity: unknown },
+  options: RedactOptions = {}
+): MaybePromise<unknown> {
+  if (Array.isArray(args.entity)) {
+    const results = args.entity.map((entity) =>
+      redactFields(fields, { actor: args.actor, entity }, options)
+    );
+    return results.some(isPromiseLike) ? Promise.all(results) : results;
+  }
+
+  const rules: FieldRule[] = [];
+  const collect = (map: FieldRules) => {
+    for (const rule of Object.values(map)) {
+      if (typeof rule === "function") rules.push(rule);
+      else collect(rule);
+    }
+  };
+  collect(fields);
+
+  const results = rules.map((rule) => rule(args));
+  const apply = (settled: unknown[]) => {
+    const visible = new Map(
+      rules.map((rule, i) => [rule, isAllowed(settled[i])])
+    );
+    return strip(args.entity, fields, "", visible, options);
+  };
+
+  return results.some(isPromiseLike)
+    ? Promise.all(results).then(apply)
+    : apply(results);
+}
+
+function strip(
+  value: unknown,
+  fields: FieldRules,
+  path: string,
+  visible: Map<FieldRule, boolean>,
+  options: RedactOptions
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => strip(item, fields, path, visible, options));
+  }
+  if (typeof value !== "object" || value === null) return value;
+
+  const copy: Record<string, unknown> = { ...value };
+  for (const [field, rule] of Object.entries(fields)) {
+    if (!(field in copy)) continue;
+    const fieldPath = path ? `${path}.${field}` : field;
+
+    if (typeof rule !== "function") {
+      copy[field] = strip(copy[field], rule, fieldPath, visible, options);
+    } else if (!visible.get(rule)) {
+      if (!("mask" in options)) delete copy[field];
+      else if (typeof options.mask === "function") {
+        copy[field] = options.mask(copy[field], fieldPath);
+      } else copy[field] = options.mask;
+    }
+  }
+  return copy;
+}
@@ -0,0 +1,254 @@
+import type {
+  ActionName,
+  CheckContext,
+  Decision,
+  PermissionDefinition,
+  Permissions,
+  ResourceName,
+} from "./index.js";
+import type { MaybePromise } from "./utils.js";
+
+/**
+ * Options accepted by `createPermissionMiddleware()`.
+ *
+ * @public
+ */
+export type HttpPermissionOptions = {
+  /**
+   * Whether error responses carry an RFC 9457 problem details JSON
+   * body instead of a plain text one (defaults to `false`)
+   */
+  problemDetails?: boolean;
+  /**
+   * Whether a missing entity is answered with 404 instead of 403 (defaults to
+   * `false`). A 404 tells callers that an entity does not exist, even one
+   * they may not access.
+   */
+  notFound?: boolean;
+  /** Called when resolving the context or the check throws, before responding with 500 (defaults to `console.error`) */
+  onError?: (error: unknown, request: Request) => void;
+};
+
+/**
+ * How `requirePermission()` reads the context of a check from a request. The
+ * actor is required: a request without one is answered with 401. So is the
+ * entity when there is a resolver for it: a request for a missing one is
+ * answered with 403 like a denial, or with 404 when `notFound` is set.
+ *
+ * @template Req - The request type the resolvers receive
+ * @template Ctx - The context of the checked resource
+ *
+ * @public
+ */
+export type PermissionResolvers<Req extends Request, Ctx> = {
+  /** Reads the actor, returning `null` or `undefined` when unauthenticated */
+  actor: (
+    request: Req
+  ) => MaybePromise<
+    Ctx extends { actor: infer A } ? A | null | undefined : unknown
+  >;
+  /** Reads or loads the entity, returning `null` or `undefined` when it does not exist */
+  entity?: (
+    request: Req
+  ) => MaybePromise<
+    Ctx extends { entity?: infer E } ? E | null | undefined : unknown
+  >;
+  /** Reads the attributes */
+  attributes?: (
+    request: Req
+  ) => MaybePromise<Ctx extends { attributes?: infer A } ? A : unknown>;
+  /** Overrides the `problemDetails` option for this guard */
+  problemDetails?: boolean;
+  /** Overrides the `notFound` option for this guard */
+  notFound?: boolean;
+};
+
+/**
+ * A guard returned by `requirePermission()`. Call it with a request handler to
+ * get a handler that only runs when the check allows; it works for `fetch`
+ * handlers and `Bun.serve` routes alike, passing any extra arguments through.
+ * Use `check()` in frameworks with their own middleware, such as Hono.
+ *
+ * @template Req - The request type the resolvers receive
+ *
+ * @public
+ */
+export type PermissionGuard<Req extends Request> = {
+  <Rq extends Req, Args extends unknown[]>(
+    handler: (request: Rq, ...args: Args) => MaybePromise<Response>
+  ): (request: Rq, ...args: Args) => Promise<Response>;
+
+  /**
+   * Checks a request, resolving to the 401, 403, 404 or 500 response to send, or
+   * to `undefined` when the request may proceed.
+   */
+  check(request: Req): Promise<Response | undefined>;
+};
+
+/**
+ * The context a request was allowed with, as resolved by a guard.
+ *
+ * @public
+ */
+export type PermissionContext = {
+  actor: unknown;
+  entity?: unknown;
+  attributes?: unknown;
+  /** The decision that allowed the request */
+  decision: Decision;
+};
+
+// Contexts of allowed requests, so handlers can reuse what the guard loaded
+const contexts = new WeakMap<Request, PermissionContext>();
+
+/**
+ * Creates `requirePermission()` for a permissions instance, to guard HTTP
+ * request handlers built on the Fetch API, such as `Bun.serve` routes.
+ *
+ * - 401 when the `actor` resolver returns `null` or `undefined`
+ * - 403 when the `entity` resolver returns `null` or `undefined`, or 404 with `notFound`
+ * - 403 when the check denies, with the decision's `reason` and `code` in a problem details body
+ * - 500 when a resolver or the check throws
+ *
+ * @param permissions - The permissions instance to check with
+ * @param options - Response bodies and error reporting
+ * @returns `requirePermission(resource, action, resolvers)`
+ *
+ * @example
+ * ```typescript
+ * const requirePermission = createPermissionMiddleware(permissions, {
+ *   problemDetails: true
+ * });
+ *
+ * Bun.serve({
+ *   routes: {
+ *     '/posts/:id': {
+ *       PATCH: requirePermission('post', 'edit', {
+ *         actor: (req) => sessions.userOf(req),
+ *         entity: (req: BunRequest<'/posts/:id'>) => db.posts.get(req.params.id)
+ *       })(async (req) => {
+ *         const { entity } = permissionContext(req)!;
+ *         return Response.json(await db.posts.update(entity, await req.json()));
+ *       })
+ *     }
+ *   }
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createPermissionMiddleware<
+  T extends readonly PermissionDefinition<any, any>[],
+  S extends string | false
+>(permissions: Permissions<T, S>, options: HttpPermissionOptions = {}) {
+  const { onError = console.error } = options;
+
+  /**
+   * Guards request handlers with a permission check whose context is read
+   * from the request.
+   *
+   * @param resource - The resource to check
+   * @param action - The action to check
+   * @param resolvers - How to read the actor, entity and attributes from a request
+   * @returns A guard to wrap request handlers with
+   */
+  return function requirePermission<
+    R extends ResourceName<T, S>,
+    A extends ActionName<T, R, S>,
+    Req extends Request = Request
+  >(
+    resource: R,
+    action: A,
+    resolvers: PermissionResolvers<Req, CheckContext<T, R, S>>
+  ): PermissionGuard<Req> {
+    const problemDetails = resolvers.problemDetails ?? options.problemDetails;
+    const notFound = resolvers.notFound ?? options.notFound;
+
+    async function check(request: Req) {
+      let context: PermissionContext;
+      try {
+        const actor = await resolvers.actor(request);
+        if (actor === null || actor === undefined) {
+          return failure(401, "Unauthorized", problemDetails);
+        }
+
+        const entity = await resolvers.entity?.(request);
+        // Unless 404s are enabled, a missing entity looks like a denial
+        if (resolvers.entity && (entity === null || entity === undefined)) {
+          return notFound
+            ? failure(404, "Not Found", problemDetails)
+            : failure(403, "Forbidden", problemDetails, { resource, action });
+        }
+
+        const ctx = {
+          actor,
+          entity,
+          attributes: await resolvers.attributes?.(request),
+        };
+        const decision = await permissions.explain(
+          resource,
+          action,
+          ctx as any
+        );
+        context = { ...ctx, decision };
+      } catch (error) {
+        onError(error, request);
+        return failure(500, "Internal Server Error", problemDetails);
+      }
+
+      const { decision } = context;
+      if (!decision.allowed) {
+        return failure(403, "Forbidden", problemDetails, decision);
+      }
+      contexts.set(request, context);
+      return undefined;
+    }
+
+    const guard = <Rq extends Req, Args extends unknown[]>(
+      handler: (request: Rq, ...args: Args) => MaybePromise<Response>
+    ) =>
+      async function guarded(request: Rq, ...args: Args) {
+        return (await check(request)) ?? handler(request, ...args);
+      };
+
+    return Object.assign(guard, { check });
+  };
+}
+
+/**
+ * Returns the context a request was allowed with by a guard, so handlers can
+ * reuse the actor and entity it resolved.
+ *
+ * @param request - A request that passed a guard
+ * @returns The resolved context, or `undefined` if no guard allowed the request
+ *
+ * @public
+ */
+export function permissionContext(
+  request: Request
+): PermissionContext | undefined {
+  return contexts.get(request);
+}
+
+// Build an error response, as problem details when enabled. Denials carry the
+// decision's reason and code; other errors reveal nothing.
+function failure(
+  status: 401 | 403 | 404 | 500,
+  title: string,
+  problemDetails: boolean | undefined,
+  decision?: Pick<Decision, "resource" | "action" | "reason" | "code">
+) {
+  if (!problemDetails) return new Response(title, { status });
+
+  const body: Record<string, unknown> = { type: "about:blank", title, status };
+  if (decision?.reason !== undefined) body.detail = decision.reason;
+  if (decision?.code !== undefined) body.code = decision.code;
+  if (decision) {
+    body.resource = decision.resource;
+    body.action = decision.action;
+  }
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/problem+json" },
+  });
+}
@@ -1,3 +1,182 @@
+import {
+  deny,
+  failed,
+  failureOf,
+  isAllowed,
+  toAllowed,
+  toDecision,
+  type ActionResult,
+  type Decision,
+  type Failure,
+} from "./decision.js";
+import {
+  AuthorizationError,
+  DuplicateResourceError,
+  HandlerTimeoutError,
+  TenantMismatchError,
+  UnknownActionError,
+  UnknownResourceError,
+} from "./errors.js";
+import { audited, type AuditOptions } from "./audit.js";
+import {
+  createDecisionCache,
+  type CacheOptions,
+  type DecisionCache,
+  type InvalidateFilter,
+} from "./cache.js";
+import {
+  combine,
+  evaluatorsOf,
+  hasRules,
+  ruleEvaluator,
+  targets,
+  type CombiningAlgorithm,
+  type Rule,
+} from "./combining.js";
+import { conditionOf, residualCondition, type Condition } from "./policy.js";
+import { compileQuery, QueryCompileError, type QueryNode } from "./query.js";
+import {
+  redactFields,
+  type FieldRules,
+  type Redacted,
+  type RedactOptions,
+} from "./fields.js";
+import {
+  ArgsValidationError,
+  validateArgs,
+  type Validation,
+  type ValidatedArgs,
+} from "./validation.js";
+import {
+  describeDefinition,
+  type ActionMetadata,
+  type ResourceDescription,
+} from "./describe.js";
+import {
+  abortable,
+  chain,
+  idOf,
+  isPromiseLike,
+  mapConcurrent,
+  timeoutSignal,
+} from "./utils.js";
+
+export {
+  createMemoryAuditSink,
+  createNdjsonAuditSink,
+  type AuditEvent,
+  type AuditOptions,
+  type AuditSink,
+  type MemoryAuditSink,
+} from "./audit.js";
+export {
+  allOf,
+  anyOf,
+  firstMatch,
+  not,
+  when,
+  type CombinedArgs,
+  type CombinedResult,
+  type HandlerLike,
+} from "./combinators.js";
+export {
+  forbid,
+  permit,
+  policies,
+  type CombiningAlgorithm,
+  type Rule,
+  type RuleOptions,
+} from "./combining.js";
+export {
+  type FieldRule,
+  type FieldRules,
+  type Redacted,
+  type RedactOptions,
+} from "./fields.js";
+export {
+  matchesQuery,
+  QueryCompileError,
+  toMongo,
+  toSql,
+  type MongoOptions,
+  type QueryNode,
+  type QueryOperator,
+  type SqlOptions,
+  type SqlQuery,
+} from "./query.js";
+export {
+  ArgsValidationError,
+  type ArgsValidators,
+  type Validation,
+  type ValidatedArgs,
+  type ValidatedType,
+  type Validator,
+} from "./validation.js";
+export {
+  simulate,
+  type SimulatedOutcome,
+  type SimulationChange,
+  type SimulationFixtures,
+  type SimulationGroup,
+  type SimulationOptions,
+  type SimulationReport,
+} from "./simulate.js";
+export {
+  type ActionDescription,
+  type ActionMetadata,
+  type ResourceDescription,
+  type RiskLevel,
+} from "./describe.js";
+export { type CacheOptions, type InvalidateFilter } from "./cache.js";
+export {
+  compilePolicy,
+  conditionHandler,
+  conditionOf,
+  evaluateCondition,
+  PolicyValidationError,
+  residualCondition,
+  validatePolicy,
+  type Condition,
+  type PolicyDocument,
+  type PolicyIssue,
+  type PolicyOperand,
+  type PolicyPath,
+} from "./policy.js";
+export {
+  createMemoryTupleStore,
+  createRelations,
+  formatTuple,
+  parseTuple,
+  RelationDepthError,
+  type MemoryTupleStore,
+  type RelationRewrite,
+  type Relations,
+  type RelationSchema,
+  type RelationsOptions,
+  type RelationTuple,
+  type TupleStore,
+} from "./relations.js";
+export { createRoles } from "./roles.js";
+export {
+  AuthorizationError,
+  DuplicateResourceError,
+  HandlerTimeoutError,
+  TenantMismatchError,
+  UnknownActionError,
+  UnknownResourceError,
+} from "./errors.js";
+export {
+  allow,
+  deny,
+  isVerdict,
+  notApplicable,
+  type ActionResult,
+  type Decision,
+  type Failure,
+  type SerializedError,
+  type Verdict,
+} from "./decision.js";
+
 /**
  * Represents a primitive value that can be used as an attribute in permission checks.
  *
@@ -21,6 +200,8 @@ export type Args<A, E = unknown, Attr = unknown> = {
   entity?: E;
   /** Additional context attributes (optional) */
   attributes?: Attr;
+  /** Aborted when the check times out or the caller cancels it (optional) */
+  signal?: AbortSignal;
 };
 
 /**
@@ -28,20 +209,48 @@ export type Args<A, E = unknown, Attr = unknown> = {
  *
  * @template Args - The arguments structure containing actor, entity, and attributes
  * @param args - The permission check arguments
- * @returns A boolean or Promise<boolean> indicating if the action is allowed
+ * @returns A boolean or `Verdict` (or a Promise of either) indicating if the action is allowed
  *
  * @example
  * ```typescript
  * const canEdit: ActionHandler<{actor: User, entity: Post}> = ({actor, entity}) => {
  *   return actor.id === entity.authorId || actor.role === 'admin';
  * };
+ *
+ * // Return a verdict to explain the outcome
+ * const canDelete: ActionHandler<{actor: User}> = ({actor}) =>
+ *   actor.role === 'admin' ? allow() : deny('admins only', 'NOT_ADMIN');
  * ```
  *
  * @public
  */
 export type ActionHandler<Args = any> = (
   args: Args
-) => boolean | Promise<boolean>;
+) => ActionResult | Promise<ActionResult>;
+
+/**
+ * An action given with its metadata, as an alternative to a bare handler in
+ * `createPermissionDefinition()`. The metadata ends up on the definition's
+ * `metadata` and is reported by `permissions.describe()` and the audit log.
+ *
+ * @template Args - The arguments structure of the handler
+ *
+ * @example
+ * ```typescript
+ * const deletePost: ActionSpec<{actor: User, entity: Post}> = {
+ *   handler: ({actor}) => actor.role === 'admin',
+ *   description: 'Permanently delete a post',
+ *   riskLevel: 'high',
+ *   requiresMfa: true
+ * };
+ * ```
+ *
+ * @public
+ */
+export type ActionSpec<Args = any> = ActionMetadata & {
+  /** The permission handler of the action */
+  handler: ActionHandler<Args>;
+};
 
 /**
  * A mapping of action names to their corresponding permission handlers.
@@ -66,13 +275,104 @@ export type ActionMap = Record<string, ActionHandler<any>>;
  *
  * @public
  */
-export interface PermissionDefinition<R extends string, H extends ActionMap> {
+export interface PermissionDefinition<
+  R extends string,
+  H extends ActionMap,
+  F extends FieldRules = {}
+> {
   /** The name of the resource this definition applies to */
   resource: R;
   /** Map of action names to their permission handlers */
   handlers: H;
+  /** How policies for this resource are combined, overriding the instance's algorithm */
+  combining?: CombiningAlgorithm;
+  /** Rules deciding which fields of an entity the actor may see */
+  fields?: F;
+  /** Handler timeout in milliseconds, for every action or per action */
+  timeout?: number | { [action: string]: number | undefined };
+  /** What a failing handler results in, for every action or per action */
+  errorPolicy?: ErrorPolicy | { [action: string]: ErrorPolicy | undefined };
+  /** Validators for the arguments of every action or per action */
+  validate?: Validation;
+  /** What the resource is, for introspection */
+  description?: string;
+  /** What each action declares about itself, for introspection */
+  metadata?: { [action: string]: ActionMetadata | undefined };
 }
 
+/**
+ * Options accepted by `createPermissionDefinition()`.
+ *
+ * @public
+ */
+export type DefinitionOptions<
+  F extends FieldRules = {},
+  A extends string = string
+> = {
+  /** How policies for this resource are combined, see `CombiningAlgorithm` */
+  combining?: CombiningAlgorithm;
+  /** Rules deciding which fields of an entity the actor may see, see `permissions.redact()` */
+  fields?: F;
+  /** Handler timeout in milliseconds, for every action or per action, overriding the instance's */
+  timeout?: number | { [K in A]?: number };
+  /** What a failing handler results in, for every action or per action, overriding the instance's */
+  errorPolicy?: ErrorPolicy | { [K in A]?: ErrorPolicy };
+  /** What the resource is, reported by `permissions.describe()` */
+  description?: string;
+  /** Descriptions, tags and requirements per action, reported by `permissions.describe()` */
+  metadata?: { [K in A]?: ActionMetadata };
+};
+
+/**
+ * Decides what a handler that times out or throws results in:
+ * - `throw` - the check throws the error, or a `HandlerTimeoutError` (default)
+ * - `deny` - the check fails closed, with code `TIMEOUT` or `HANDLER_ERROR`
+ * - a function - its result is used instead, as a custom fallback
+ *
+ * Either way the decision and audit event report the `failure`. Cancellation
+ * through the caller's own `signal` always throws.
+ *
+ * @example
+ * ```typescript
+ * const permissions = createPermissions([postPermissions], {
+ *   timeout: 500,
+ *   errorPolicy: (error, { failure }) =>
+ *     failure === 'timeout' ? deny('try again later', 'UNAVAILABLE') : false
+ * });
+ * ```
+ *
+ * @public
+ */
+export type ErrorPolicy = "throw" | "deny" | ErrorFallback;
+
+/**
+ * A custom fallback for a failing handler, see `ErrorPolicy`.
+ *
+ * @public
+ */
+export type ErrorFallback = (
+  error: unknown,
+  details: {
+    /** The resource that was checked */
+    resource: string;
+    /** The action whose handler failed */
+    action: string;
+    /** Whether the handler timed out or threw */
+    failure: Failure;
+    /** The arguments the handler was called with */
+    ctx: unknown;
+  }
+) => ActionResult | Promise<ActionResult>;
+
+// The handlers of actions given as bare handlers or with their metadata
+type HandlersFrom<H> = {
+  [K in keyof H]: H[K] extends ActionHandler<any>
+    ? H[K]
+    : H[K] extends { handler: infer F extends ActionHandler<any> }
+    ? F
+    : never;
+};
+
 // Extract argument types from handlers, supporting both optional and required properties
 type ArgsOf<H> = H extends Record<string, (args: infer P) => any> ? P : never;
 type ActorOf<H> = ArgsOf<H> extends { actor: infer A } ? A : never;
@@ -114,6 +414,50 @@ export type CreateActionRule<
   ? ActionHandler<{ actor: A; entity: E }>
   : ActionHandler<{ actor: A; entity: E; attributes: Attr }>;
 
+/**
+ * Creates a permission definition whose checks validate their arguments at
+ * runtime, before the handler runs. Handler arguments are typed from the
+ * validators, so handlers need no annotations. A failed validation throws an
+ * `ArgsValidationError`, or is handled by the `errorPolicy` as an `invalid`
+ * failure.
+ *
+ * @param resource - The name of the resource
+ * @param handlers - An object mapping action names to their permission handler functions
+ * @param options - Validators for every action or per action, and the other definition options
+ * @returns A PermissionDefinition that can be used with createPermissions
+ *
+ * @example
+ * ```typescript
+ * const postPermissions = createPermissionDefinition(
+ *   'post',
+ *   {
+ *     create: ({ actor }) => actor.role === 'admin',
+ *     edit: ({ actor, entity }) => actor.id === entity.authorId
+ *   },
+ *   { validate: { actor: UserSchema, actions: { edit: { entity: PostSchema } } } }
+ * );
+ * ```
+ *
+ * @public
+ */
+export function createPermissionDefinition<
+  R extends string,
+  A extends string,
+  const V extends Validation<A>,
+  const F extends FieldRules = {}
+>(
+  resource: R,
+  handlers: {
+    [K in A]:
+      | ActionHandler<ValidatedArgs<V, K>>
+      | ActionSpec<ValidatedArgs<V, K>>;
+  },
+  options: DefinitionOptions<F, A> & {
+    validate: V;
+    fields?: FieldRules<ValidatedArgs<V, A>["actor"]>;
+  }
+): PermissionDefinition<R, { [K in A]: ActionHandler<ValidatedArgs<V, K>> }, F>;
+
 /**
  * Creates a permission definition for a specific resource with its associated action handlers.
  * This is the primary way to define what actions are available on a resource and how they should be evaluated.
@@ -123,6 +467,7 @@ export type CreateActionRule<
  *
  * @param resource - The name of the resource (e.g., 'post', 'user', 'document')
  * @param handlers - An object mapping action names to their permission handler functions
+ * @param options - How policies for the resource are combined, field rules, timeouts and error policies
  * @returns A PermissionDefinition that can be used with createPermissions
  *
  * @example
@@ -152,15 +497,52 @@ export type CreateActionRule<
  */
 export function createPermissionDefinition<
   R extends string,
-  H extends ActionMap
->(resource: R, handlers: H): PermissionDefinition<R, H> {
-  return { resource, handlers };
+  H extends Record<string, ActionHandler<any> | ActionSpec<any>>,
+  const F extends FieldRules = {}
+>(
+  resource: R,
+  handlers: H,
+  options?: DefinitionOptions<F, keyof H & string> & {
+    fields?: FieldRules<ActorOf<HandlersFrom<H>>>;
+  }
+): PermissionDefinition<R, HandlersFrom<H>, F>;
+
+export function createPermissionDefinition(
+  resource: string,
+  handlers: Record<string, ActionHandler | ActionSpec>,
+  options: DefinitionOptions & { validate?: Validation } = {}
+): PermissionDefinition<string, ActionMap> {
+  const actions: ActionMap = {};
+  const metadata = { ...options.metadata };
+  for (const [action, spec] of Object.entries(handlers)) {
+    if (typeof spec === "function") {
+      actions[action] = spec;
+    } else {
+      const { handler, ...declared } = spec;
+      actions[action] = handler;
+      metadata[action] = { ...metadata[action], ...declared };
+    }
+  }
+
+  return Object.keys(metadata).length > 0
+    ? { resource, ...options, handlers: actions, metadata }
+    : { resource, ...options, handlers: actions };
 }
 
+// A `*` handler accepts any action name, while still suggesting the named ones
 type ActionsOf<D> = D extends PermissionDefinition<any, infer H>
-  ? keyof H & string
+  ? "*" extends keyof H
+    ? Exclude<keyof H & string, "*"> | (string & {})
+    : keyof H & string
+  : never;
+// The named actions of a definition, without the `*` fallback
+type NamedActionsOf<D> = D extends PermissionDefinition<any, infer H>
+  ? Exclude<keyof H & string, "*">
   : never;
 type HandlersOf<D> = D extends PermissionDefinition<any, infer H> ? H : never;
+type FieldsOf<D> = D extends PermissionDefinition<any, any, infer F>
+  ? F
+  : never;
 
 // Extract the parameter type for a specific action handler
 type HandlerArgsOf<H, K extends keyof H> = H[K] extends (args: infer P) => any
@@ -199,48 +581,551 @@ type AttributesTypeOf<H, K extends keyof H> = HandlerArgsOf<H, K> extends {
   ? A
   : never;
 
+// What a partial evaluation may know: the actor, and maybe the entity and attributes
+type ResidualArgsOf<H> = { actor: ActorOf<H> } & Partial<ArgsOf<H>>;
+
+/**
+ * A lazy permission check produced by the builder API. Nothing is evaluated until
+ * the check is awaited or `check()` is called, so the entity and attributes can be
+ * supplied step by step with `on()` and `with()`.
+ *
+ * `check()` and `then()` only become usable once every required parameter of
+ * the action has been provided, so forgetting `.with()` on an action that needs
+ * attributes is a compile error, whether the check is awaited or evaluated.
+ *
+ * @template E - The entity type of the action
+ * @template Attr - The attributes type of the action
+ * @template NeedsEntity - Whether a required entity is still missing
+ * @template NeedsAttributes - Whether required attributes are still missing
+ * @template Result - What the check resolves to (`void` for `assert` checks)
+ *
+ * @example
+ * ```typescript
+ * const canPublish = await permissions
+ *   .get('post')
+ *   .can(user)
+ *   .publish(post)
+ *   .with({ reason: 'ready for review' });
+ *
+ * // Or evaluate explicitly, staying synchronous for synchronous handlers
+ * const canEdit = permissions.get('post').can(user).edit().on(post).check();
+ * ```
+ *
+ * @public
+ */
+export type PermissionCheck<
+  E,
+  Attr,
+  NeedsEntity extends boolean = false,
+  NeedsAttributes extends boolean = false,
+  Result = boolean
+> = {
+  /** Supplies the entity the action is performed on */
+  on(entity: E): PermissionCheck<E, Attr, false, NeedsAttributes, Result>;
+  /** Supplies the attributes for the action */
+  with(attributes: Attr): PermissionCheck<E, Attr, NeedsEntity, false, Result>;
+} & ([NeedsEntity, NeedsAttributes] extends [false, false]
+  ? {
+      /** Evaluates the check, synchronously when the handler is synchronous */
+      check(): Result | Promise<Result>;
+      /** Evaluates the check when awaited */
+      then: PromiseLike<Result>["then"];
+    }
+  : {
+      /** Not evaluable yet: awaiting an incomplete check is a compile error */
+      then(onfulfilled: never, onrejected?: never): never;
+    });
+
 // Builder types that respect the exact parameter requirements
-type ActionMethod<H, K extends keyof H> = IsEntityRequired<H, K> extends true
-  ? IsAttributesRequired<H, K> extends true
-    ? (
-        entity: EntityTypeOf<H, K>,
-        attributes: AttributesTypeOf<H, K>
-      ) => boolean | Promise<boolean>
-    : (
-        entity: EntityTypeOf<H, K>,
-        attributes?: AttributesTypeOf<H, K>
-      ) => boolean | Promise<boolean>
-  : IsAttributesRequired<H, K> extends true
-  ? (
-      entity?: EntityTypeOf<H, K>,
-      attributes?: AttributesTypeOf<H, K>
-    ) => boolean | Promise<boolean>
-  : (
-      entity?: EntityTypeOf<H, K>,
-      attributes?: AttributesTypeOf<H, K>
-    ) => boolean | Promise<boolean>;
-
-type ActionInvoker<D extends PermissionDefinition<any, any>> = {
-  [K in ActionsOf<D>]: ActionMethod<HandlersOf<D>, K>;
+type ActionMethod<H, K extends keyof H, Result = boolean> = {
+  (): PermissionCheck<
+    EntityTypeOf<H, K>,
+    AttributesTypeOf<H, K>,
+    IsEntityRequired<H, K>,
+    IsAttributesRequired<H, K>,
+    Result
+  >;
+  (entity: EntityTypeOf<H, K>): PermissionCheck<
+    EntityTypeOf<H, K>,
+    AttributesTypeOf<H, K>,
+    false,
+    IsAttributesRequired<H, K>,
+    Result
+  >;
+  (
+    entity: IsEntityRequired<H, K> extends true
+      ? EntityTypeOf<H, K>
+      : EntityTypeOf<H, K> | undefined,
+    attributes: AttributesTypeOf<H, K>
+  ): PermissionCheck<
+    EntityTypeOf<H, K>,
+    AttributesTypeOf<H, K>,
+    false,
+    false,
+    Result
+  >;
+};
+
+// Action methods for an actor, resolving to `void` for `assert` checks. Only
+// named actions get a method; the `*` fallback is checked by name with `can()`.
+type ActionInvoker<D extends PermissionDefinition<any, any>, Result> = {
+  [K in NamedActionsOf<D>]: ActionMethod<HandlersOf<D>, K, Result>;
 };
 
-type ResourceAccessor<D extends PermissionDefinition<any, any>> = (
+// Boolean action methods, plus `assert` variants that throw on denial unless
+// an action is named `assert`. Those stay available through `get(r).assert()`.
+type CheckInvoker<D extends PermissionDefinition<any, any>> = ActionInvoker<
+  D,
+  boolean
+> &
+  ("assert" extends NamedActionsOf<D>
+    ? {}
+    : { assert: ActionInvoker<D, void> });
+
+type ResourceAccessor<
+  D extends PermissionDefinition<any, any>,
+  Result = boolean
+> = (
   actor: ActorOf<HandlersOf<D>>
-) => ActionInvoker<D>;
+) => Result extends void ? ActionInvoker<D, Result> : CheckInvoker<D>;
 
 type ActionObject<D extends PermissionDefinition<any, any>> = {
-  [K in ActionsOf<D>]: () => boolean | Promise<boolean>;
+  [K in NamedActionsOf<D>]: () => boolean | Promise<boolean>;
 };
 
+// Drop the definitions of a resource, as a replacing `add()` does
+type WithoutResource<
+  T extends readonly PermissionDefinition<any, any>[],
+  R extends string
+> = T extends readonly [
+  infer Head extends PermissionDefinition<any, any>,
+  ...infer Rest extends readonly PermissionDefinition<any, any>[]
+]
+  ? [Head["resource"]] extends [R]
+    ? [R] extends [Head["resource"]]
+      ? WithoutResource<Rest, R>
+      : [Head, ...WithoutResource<Rest, R>]
+    : [Head, ...WithoutResource<Rest, R>]
+  : T extends readonly []
+  ? []
+  : Exclude<T[number], PermissionDefinition<R, any, any>>[];
+
 // Extract resource names from an array of permission definitions
 type ResourceNamesOf<T extends readonly PermissionDefinition<any, any>[]> =
   T[number]["resource"];
 
+// Resource names accepted by lookups: registered names and, through
+// hierarchical resolution with separator S, names nested below them. Nesting
+// is only typed for a known separator.
+type ResourcePathOf<
+  T extends readonly PermissionDefinition<any, any>[],
+  S extends string | false = ":"
+> = S extends string
+  ? string extends S
+    ? ResourceNamesOf<T>
+    : ResourceNamesOf<T> | `${ResourceNamesOf<T>}${S}${string}`
+  : ResourceNamesOf<T>;
+
+// Drop the last segment of a hierarchical resource name
+type ParentOf<
+  R extends string,
+  S extends string
+> = R extends `${infer Head}${S}${infer Tail}`
+  ? Tail extends `${string}${S}${string}`
+    ? `${Head}${S}${ParentOf<Tail, S>}`
+    : Head
+  : never;
+
+// The definitions whose resource name matches exactly, including template literal names
+type MatchOf<D, R> = D extends PermissionDefinition<infer N, any>
+  ? R extends N
+    ? D
+    : never
+  : never;
+
+// Extract the definition a resource name resolves to, falling back to its
+// parents when names nest with separator S
+type DefinitionOf<
+  T extends readonly PermissionDefinition<any, any>[],
+  R,
+  S extends string | false = ":"
+> = [MatchOf<T[number], R>] extends [never]
+  ? S extends string
+    ? R extends `${string}${S}${string}`
+      ? DefinitionOf<T, ParentOf<R, S>, S>
+      : never
+    : never
+  : MatchOf<T[number], R>;
+
+/**
+ * A resource name accepted by the checks of a permissions instance: a
+ * registered name, or a name nested below one.
+ *
+ * @template T - Array of PermissionDefinition types of the permissions instance
+ * @template S - The separator of hierarchical resource names
+ *
+ * @public
+ */
+export type ResourceName<
+  T extends readonly PermissionDefinition<any, any>[],
+  S extends string | false = ":"
+> = ResourcePathOf<T, S>;
+
+/**
+ * An action name of a resource of a permissions instance.
+ *
+ * @template T - Array of PermissionDefinition types of the permissions instance
+ * @template R - The resource name
+ * @template S - The separator of hierarchical resource names
+ *
+ * @public
+ */
+export type ActionName<
+  T extends readonly PermissionDefinition<any, any>[],
+  R extends string,
+  S extends string | false = ":"
+> = ActionsOf<DefinitionOf<T, R, S>>;
+
+/**
+ * The context a check of a resource of a permissions instance takes: the
+ * actor, entity and attributes its handlers expect.
+ *
+ * @template T - Array of PermissionDefinition types of the permissions instance
+ * @template R - The resource name
+ * @template S - The separator of hierarchical resource names
+ *
+ * @public
+ */
+export type CheckContext<
+  T extends readonly PermissionDefinition<any, any>[],
+  R extends string,
+  S extends string | false = ":"
+> = ArgsOf<HandlersOf<DefinitionOf<T, R, S>>>;
+
+/**
+ * One row of a `permissions.matrix()` request: a resource with the entity and
+ * attributes to check it against, optionally narrowed to a subset of actions.
+ *
+ * @template T - Array of PermissionDefinition types of the permissions instance
+ *
+ * @public
+ */
+export type MatrixEntry<T extends readonly PermissionDefinition<any, any>[]> = {
+  [R in ResourceNamesOf<T>]: Omit<
+    ArgsOf<HandlersOf<DefinitionOf<T, R>>>,
+    "actor"
+  > & {
+    /** The resource to check */
+    resource: R;
+    /** Actions to check (defaults to every action of the resource) */
+    actions?: readonly ActionsOf<DefinitionOf<T, R>>[];
+  };
+}[ResourceNamesOf<T>];
+
+/**
+ * The result of `permissions.matrix()`: for every entry of the request, in order,
+ * a record of the checked actions and whether each is permitted.
+ *
+ * @public
+ */
+export type MatrixResult<
+  T extends readonly PermissionDefinition<any, any>[],
+  Q extends readonly MatrixEntry<T>[]
+> = {
+  -readonly [I in keyof Q]: Record<
+    Q[I] extends { actions: readonly (infer A extends string)[] }
+      ? A
+      : ActionsOf<DefinitionOf<T, Q[I]["resource"]>>,
+    boolean
+  >;
+};
+
+/**
+ * Options accepted by `permissions.matrix()`.
+ *
+ * @public
+ */
+export type MatrixOptions = {
+  /** Maximum number of handlers evaluated at the same time (defaults to unlimited) */
+  concurrency?: number;
+};
+
+/**
+ * Options accepted by `permissions.filter()` and `permissions.partition()`.
+ *
+ * @template Attr - The attributes type of the filtered action
+ *
+ * @public
+ */
+export type FilterOptions<Attr = unknown> = {
+  /** Attributes passed to the handler for every entity */
+  attributes?: Attr;
+  /** Maximum number of handlers evaluated at the same time (defaults to unlimited) */
+  concurrency?: number;
+};
+
+/**
+ * Options accepted by `permissions.toQuery()`.
+ *
+ * @template Attr - The attributes type of the queried action
+ *
+ * @public
+ */
+export type QueryOptions<Attr = unknown> = {
+  /** Attributes substituted into the condition */
+  attributes?: Attr;
+};
+
+/**
+ * Strategy used by `permissions.add()` when a definition for the same resource
+ * has already been registered.
+ *
+ * - `reject` - throw a `DuplicateResourceError` (default)
+ * - `replace` - drop the existing definition and use the new one
+ * - `merge` - keep both, with actions from the new definition taking precedence
+ *
+ * @public
+ */
+export type ConflictStrategy = "reject" | "replace" | "merge";
+
+/**
+ * Options accepted by `permissions.add()`.
+ *
+ * @public
+ */
+export type AddOptions = {
+  /** How to handle a resource that is already registered (defaults to `reject`) */
+  onConflict?: ConflictStrategy;
+};
+
+/**
+ * What a middleware receives for every permission evaluation.
+ *
+ * @public
+ */
+export type MiddlewareInvocation = {
+  /** The resource being checked */
+  resource: string;
+  /** The action being checked */
+  action: string;
+  /** The context the handler will be called with */
+  ctx: Args<any, any, any>;
+  /**
+   * Runs the remaining middleware and the handler, optionally with a replaced context.
+   */
+  next: (ctx?: Args<any, any, any>) => ActionResult | Promise<ActionResult>;
+};
+
+/**
+ * Wraps handler execution for every permission check made through
+ * `get().can()`, `can(resource, ctx)`, `can(resource, action, ctx)` and the
+ * APIs built on them. A middleware may return without calling `next` to decide
+ * on its own, call `next` with a different context, or observe the result.
+ *
+ * @example
+ * ```typescript
+ * const superAdmin: Middleware = ({ ctx, next }) =>
+ *   ctx.actor.role === 'super-admin' ? allow('super admin') : next();
+ *
+ * const timing: Middleware = async ({ resource, action, next }) => {
+ *   const start = Date.now();
+ *   const result = await next();
+ *   metrics.timing(`${resource}.${action}`, Date.now() - start);
+ *   return result;
+ * };
+ * ```
+ *
+ * @public
+ */
+export type Middleware = (
+  invocation: MiddlewareInvocation
+) => ActionResult | Promise<ActionResult>;
+
+/**
+ * The actions a role may perform, keyed by resource. `"*"` grants every action
+ * of a resource, and `inherits` names roles whose grants are included. Keys may
+ * also be patterns: `"*"` for every resource and `"org:*"` for every resource
+ * nested below `org`.
+ *
+ * @template T - Array of PermissionDefinition types the role map is checked against
+ *
+ * @public
+ */
+export type RoleGrants<
+  T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
+    any,
+    any
+  >[]
+> = {
+  [R in ResourceNamesOf<T>]?: readonly (ActionsOf<DefinitionOf<T, R>> | "*")[];
+} & {
+  [P in "*" | `${ResourceNamesOf<T>}:*`]?: readonly string[];
+} & {
+  /** Roles whose grants this role includes */
+  inherits?: readonly string[];
+};
+
+/**
+ * Role names mapped to their grants.
+ *
+ * @public
+ */
+export type RoleMap<
+  T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
+    any,
+    any
+  >[]
+> = Record<string, RoleGrants<T>>;
+
+/**
+ * How a role grant combines with the action handler:
+ * - `or`: a grant allows the action without running the handler, otherwise the handler decides
+ * - `and`: the action needs a grant, and the handler must allow it as well
+ *
+ * @public
+ */
+export type RoleCombination = "or" | "and";
+
+/**
+ * Options accepted by `createRoles()`.
+ *
+ * @public
+ */
+export type RolesOptions<
+  T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
+    any,
+    any
+  >[]
+> = {
+  /**
+   * Extracts the actor's role names. Defaults to the actor's `roles` array or
+   * its `role` string.
+   */
+  rolesOf?: (
+    actor: ActorOf<HandlersOf<T[number]>>
+  ) => string | readonly string[] | undefined;
+  /** How grants combine with handlers (defaults to `or`) */
+  combine?: RoleCombination;
+  /** Separates the segments of hierarchical resource names in patterns (defaults to `:`) */
+  separator?: string;
+};
+
+/**
+ * A role-based layer created by `createRoles()`.
+ *
+ * @template T - Array of PermissionDefinition types the roles are checked against
+ *
+ * @public
+ */
+export type Roles<
+  T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
+    any,
+    any
+  >[]
+> = {
+  /** How grants combine with handlers */
+  readonly combine: RoleCombination;
+  /** Returns the actor's roles, including every inherited role */
+  rolesOf(actor: ActorOf<HandlersOf<T[number]>>): string[];
+  /** Whether any of the actor's roles grants the action */
+  grants<R extends ResourcePathOf<T>, A extends ActionsOf<DefinitionOf<T, R>>>(
+    actor: ActorOf<HandlersOf<T[number]>>,
+    resource: R,
+    action: A
+  ): boolean;
+  /** The middleware applying the grants, registered by the `roles` option */
+  readonly middleware: Middleware;
+};
+
+/**
+ * Options accepted by `createPermissions()`.
+ *
+ * @template T - Array of PermissionDefinition types of the permissions instance
+ * @template S - The separator of hierarchical resource names
+ *
+ * @public
+ */
+export type PermissionsOptions<
+  T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
+    any,
+    any
+  >[],
+  S extends string | false = string | false
+> = {
+  /**
+   * Extracts an identifier from an actor for error reporting.
+   * Defaults to the actor's `id` property when it is a string or number.
+   */
+  actorId?: (actor: any) => string | undefined;
+  /** Enables decision caching, see `CacheOptions` */
+  cache?: CacheOptions;
+  /** Middleware to run around every handler, outermost first */
+  middleware?: Middleware[];
+  /** Records every permission evaluation, see `AuditOptions` */
+  audit?: AuditOptions;
+  /**
+   * Role-based grants, see `createRoles()`. They apply inside the middleware
+   * given here and added with `use()`, so that middleware can still decide
+   * first, and a grant is combined with the `rules` like an action handler.
+   */
+  roles?: Roles<T>;
+  /** Rules applied to every matching check alongside the action handlers */
+  rules?: readonly Rule[];
+  /** How the rules and handler of a check are combined (defaults to `deny-overrides`) */
+  combining?: CombiningAlgorithm;
+  /**
+   * Separates the segments of hierarchical resource names (defaults to `:`).
+   * A name without a definition resolves to its closest registered parent, so
+   * `org:project:document` falls back to `org:project`, then `org`. Pass
+   * `false` to require exact names.
+   */
+  separator?: S;
+  /** Handler timeout in milliseconds; handlers see it through `signal` (defaults to none) */
+  timeout?: number;
+  /** What a handler that times out or throws results in (defaults to `throw`) */
+  errorPolicy?: ErrorPolicy;
+  /**
+   * Definitions that replace or add actions of the base definitions for one
+   * tenant, keyed by tenant or loaded by a function, see `permissions.forTenant()`
+   */
+  tenants?: TenantOverlays;
+  /** Reads the tenant of a check's context (defaults to `ctx.actor.tenantId`) */
+  tenantOf?: (ctx: Args<any, any, any>) => string | undefined;
+};
+
+/**
+ * Per-tenant definitions for the `tenants` option of `createPermissions()`.
+ * A tenant's definitions are merged into the base definitions of the same
+ * resource action by action, as with `add(definition, { onConflict: 'merge' })`,
+ * and may add resources of their own. A function is called once per tenant,
+ * the first time it is resolved.
+ *
+ * @example
+ * ```typescript
+ * const tenants: TenantOverlays = {
+ *   acme: [
+ *     createPermissionDefinition('doc', {
+ *       read: ({ actor, entity }: { actor: User; entity: Doc }) =>
+ *         entity.visibility !== 'secret' || actor.role === 'admin'
+ *     })
+ *   ]
+ * };
+ * ```
+ *
+ * @public
+ */
+export type TenantOverlays =
+  | Record<string, readonly PermissionDefinition<any, any>[]>
+  | ((
+      tenantId: string
+    ) => readonly PermissionDefinition<any, any>[] | undefined);
+
 /**
  * The main permissions interface providing type-safe access to permission checks.
  * Supports both builder-pattern and direct function call APIs.
  *
  * @template T - Array of PermissionDefinition types that this instance manages
+ * @template S - The separator of hierarchical resource names, or `false` when names must match exactly
  *
  * @public
  */
@@ -248,13 +1133,16 @@ export interface Permissions<
   T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
     any,
     any
-  >[]
+  >[],
+  S extends string | false = ":"
 > {
   /**
    * Gets a resource-specific permission checker with builder-pattern API.
    *
    * @param resource - The name of the resource to check permissions for
-   * @returns An object with a `can` method that accepts an actor and returns action methods
+   * @returns An object with `can` and `assert` methods that accept an actor and
+   * return action methods, whose `assert` checks throw `AuthorizationError` on
+   * denial. They are also under `can(actor).assert`, unless an action is named `assert`.
    *
    * @example
    * ```typescript
@@ -262,19 +1150,54 @@ export interface Permissions<
    * const canEdit = await permissions
    *   .get('post')
    *   .can(user)
-   *   .edit(post, { reason: 'fixing typo' });
+   *   .edit(post)
+   *   .with({ reason: 'fixing typo' });
+   *
+   * await permissions.get('post').can(user).assert.edit(post);
    * ```
    */
-  get: <R extends ResourceNamesOf<T>>(
+  get: <R extends ResourcePathOf<T, S>>(
     resource: R
   ) => {
-    can: ResourceAccessor<Extract<T[number], PermissionDefinition<R, any>>>;
+    can: ResourceAccessor<DefinitionOf<T, R, S>>;
+    assert: ResourceAccessor<DefinitionOf<T, R, S>, void>;
   };
 
   /**
-   * Direct permission checking with two overloads:
-   * 1. Check all actions for a resource, returning an object of action functions
-   * 2. Check a specific action directly, returning a boolean result
+   * Registers another permission definition and returns the permissions instance
+   * typed with the new resource and its actions.
+   *
+   * @param definition - The permission definition to register
+   * @param options - How to resolve a clash with an already registered resource
+   * @returns The same permissions instance, widened to include the new definition
+   * (replacing the types of the old one with `onConflict: 'replace'`)
+   *
+   * @example
+   * ```typescript
+   * const permissions = createPermissions()
+   *   .add(postPermissions)
+   *   .add(commentPermissions);
+   *
+   * const canEdit = await permissions.can('comment', 'edit', { actor: user, entity: comment });
+   * ```
+   */
+  add: <
+    D extends PermissionDefinition<any, any>,
+    const O extends AddOptions = {}
+  >(
+    definition: D,
+    options?: O
+  ) => Permissions<
+    O extends { onConflict: "replace" }
+      ? [...WithoutResource<T, D["resource"]>, D]
+      : [...T, D],
+    S
+  >;
+
+  /**
+   * Direct permission checking with two overloads:
+   * 1. Check all actions for a resource, returning an object of action functions
+   * 2. Check a specific action directly, returning a boolean result
    */
   can: {
     /**
@@ -291,10 +1214,10 @@ export interface Permissions<
      * const canDelete = await actions.delete();
      * ```
      */
-    <R extends ResourceNamesOf<T>>(
+    <R extends ResourcePathOf<T, S>>(
       resource: R,
-      ctx: ArgsOf<HandlersOf<Extract<T[number], PermissionDefinition<R, any>>>>
-    ): ActionObject<Extract<T[number], PermissionDefinition<R, any>>>;
+      ctx: ArgsOf<HandlersOf<DefinitionOf<T, R, S>>>
+    ): ActionObject<DefinitionOf<T, R, S>>;
 
     /**
      * Directly checks a specific action and returns the result.
@@ -313,14 +1236,471 @@ export interface Permissions<
      * ```
      */
     <
-      R extends ResourceNamesOf<T>,
-      A extends ActionsOf<Extract<T[number], PermissionDefinition<R, any>>>
+      R extends ResourcePathOf<T, S>,
+      A extends ActionsOf<DefinitionOf<T, R, S>>
     >(
       resource: R,
       action: A,
-      ctx: ArgsOf<HandlersOf<Extract<T[number], PermissionDefinition<R, any>>>>
+      ctx: ArgsOf<HandlersOf<DefinitionOf<T, R, S>>>
     ): boolean | Promise<boolean>;
   };
+
+  /**
+   * Checks a specific action and returns a `Decision` describing the outcome,
+   * including the reason and code of a `deny()` or `allow()` handler result.
+   *
+   * @param resource - The name of the resource
+   * @param action - The specific action to check
+   * @param ctx - The context containing actor, entity, and attributes
+   * @returns A Decision, or a Promise of one for async handlers
+   *
+   * @example
+   * ```typescript
+   * const decision = await permissions.explain('post', 'edit', {
+   *   actor: user,
+   *   entity: post
+   * });
+   * // { allowed: false, resource: 'post', action: 'edit', reason: 'not the author', durationMs: 0.02 }
+   * ```
+   */
+  explain: <
+    R extends ResourcePathOf<T, S>,
+    A extends ActionsOf<DefinitionOf<T, R, S>>
+  >(
+    resource: R,
+    action: A,
+    ctx: ArgsOf<HandlersOf<DefinitionOf<T, R, S>>>
+  ) => Decision | Promise<Decision>;
+
+  /**
+   * Checks a specific action, resolving when it is allowed and rejecting with an
+   * `AuthorizationError` when it is denied.
+   *
+   * @param resource - The name of the resource
+   * @param action - The specific action to check
+   * @param ctx - The context containing actor, entity, and attributes
+   * @returns A Promise that resolves if the action is permitted
+   * @throws {AuthorizationError} When the action is denied
+   *
+   * @example
+   * ```typescript
+   * await permissions.authorize('post', 'edit', { actor: user, entity: post });
+   * // Only reached when the user may edit the post
+   * ```
+   */
+  authorize: <
+    R extends ResourcePathOf<T, S>,
+    A extends ActionsOf<DefinitionOf<T, R, S>>
+  >(
+    resource: R,
+    action: A,
+    ctx: ArgsOf<HandlersOf<DefinitionOf<T, R, S>>>
+  ) => Promise<void>;
+
+  /**
+   * Evaluates every action of a resource and resolves to a record of results.
+   *
+   * @param resource - The name of the resource
+   * @param ctx - The context containing actor, entity, and attributes
+   * @returns A Promise of a record mapping each action to whether it is permitted
+   *
+   * @example
+   * ```typescript
+   * const buttons = await permissions.evaluateAll('post', { actor: user, entity: post });
+   * // { create: false, edit: true, read: true }
+   * ```
+   */
+  evaluateAll: <R extends ResourcePathOf<T, S>>(
+    resource: R,
+    ctx: ArgsOf<HandlersOf<DefinitionOf<T, R, S>>>
+  ) => Promise<Record<NamedActionsOf<DefinitionOf<T, R, S>>, boolean>>;
+
+  /**
+   * Evaluates many resources and actions for a single actor, running handlers
+   * concurrently.
+   *
+   * @param actor - The actor performing the actions
+   * @param entries - The resources to check, each with its entity, attributes and optional action subset
+   * @param options - Concurrency settings
+   * @returns A Promise of one action record per entry, in request order
+   *
+   * @example
+   * ```typescript
+   * const [postActions, commentActions] = await permissions.matrix(
+   *   user,
+   *   [
+   *     { resource: 'post', entity: post },
+   *     { resource: 'comment', entity: comment, actions: ['delete'] }
+   *   ],
+   *   { concurrency: 4 }
+   * );
+   * // postActions.edit, commentActions.delete
+   * ```
+   */
+  matrix: <const Q extends readonly MatrixEntry<T>[]>(
+    actor: ActorOf<HandlersOf<T[number]>>,
+    entries: Q,
+    options?: MatrixOptions
+  ) => Promise<MatrixResult<T, Q>>;
+
+  /**
+   * Evaluates an action for each entity of a collection and resolves to the
+   * entities the actor is permitted to act on, in their original order.
+   *
+   * @param resource - The name of the resource
+   * @param action - The action to check for every entity
+   * @param actor - The actor performing the action
+   * @param entities - An array or async iterable of entities
+   * @param options - Attributes for the handler and a concurrency limit
+   * @returns A Promise of the permitted entities
+   *
+   * @example
+   * ```typescript
+   * const readable = await permissions.filter('post', 'read', user, posts, {
+   *   concurrency: 10
+   * });
+   * ```
+   */
+  filter: <
+    R extends ResourcePathOf<T, S>,
+    A extends ActionsOf<DefinitionOf<T, R, S>>
+  >(
+    resource: R,
+    action: A,
+    actor: ActorOf<HandlersOf<DefinitionOf<T, R, S>>>,
+    entities:
+      | Iterable<EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>>
+      | AsyncIterable<EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>>,
+    options?: FilterOptions<
+      AttributesTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>
+    >
+  ) => Promise<EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>[]>;
+
+  /**
+   * Like `filter()`, but resolves to both the permitted and the denied entities.
+   *
+   * @returns A Promise of a `[allowed, denied]` tuple
+   *
+   * @example
+   * ```typescript
+   * const [editable, readOnly] = await permissions.partition('post', 'edit', user, posts);
+   * ```
+   */
+  partition: <
+    R extends ResourcePathOf<T, S>,
+    A extends ActionsOf<DefinitionOf<T, R, S>>
+  >(
+    resource: R,
+    action: A,
+    actor: ActorOf<HandlersOf<DefinitionOf<T, R, S>>>,
+    entities:
+      | Iterable<EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>>
+      | AsyncIterable<EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>>,
+    options?: FilterOptions<
+      AttributesTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>
+    >
+  ) => Promise<
+    [
+      allowed: EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>[],
+      denied: EntityTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>[]
+    ]
+  >;
+
+  /**
+   * Creates a child instance, typically one per request, that memoizes every
+   * decision it makes. Definitions and the instance-wide cache are shared with
+   * the parent.
+   *
+   * @returns A Permissions instance with its own decision memo
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   req.permissions = permissions.scope();
+   *   next();
+   * });
+   * ```
+   */
+  scope: () => Permissions<T, S>;
+
+  /**
+   * Creates a view of this instance whose checks leave no trace: they record no
+   * audit events and neither read nor fill decision caches, so what-if checks
+   * such as `simulate()` do not skew either. Definitions, middleware and
+   * options are shared with the parent.
+   *
+   * @returns A Permissions instance evaluating without audit log or caches
+   *
+   * @example
+   * ```typescript
+   * const decision = await permissions
+   *   .dryRun()
+   *   .explain('post', 'publish', { actor: intern, entity: post });
+   * ```
+   */
+  dryRun: () => Permissions<T, S>;
+
+  /**
+   * Resolves the permissions of one tenant: the base definitions with the
+   * tenant's overrides from the `tenants` option merged in. Every check made
+   * through it must carry a context of that tenant, as read by `tenantOf`, or
+   * it throws a `TenantMismatchError`. Each tenant has its own decision cache,
+   * and definitions added to it only apply to that tenant. The instance is
+   * created once per tenant and shares middleware, rules and options with the
+   * base instance.
+   *
+   * @param tenantId - The tenant to resolve
+   * @returns The tenant's Permissions instance
+   *
+   * @example
+   * ```typescript
+   * const tenantPermissions = permissions.forTenant(user.tenantId);
+   * await tenantPermissions.authorize('doc', 'read', { actor: user, entity: doc });
+   * ```
+   */
+  forTenant: (tenantId: string) => Permissions<T, S>;
+
+  /**
+   * Drops cached decisions from this instance's memo and the instance-wide cache.
+   *
+   * @param filter - Which decisions to drop; drops everything when omitted
+   *
+   * @example
+   * ```typescript
+   * // The post changed, so earlier decisions about it no longer hold
+   * permissions.invalidate({ resource: 'post', entity: post });
+   * ```
+   */
+  invalidate: (filter?: InvalidateFilter) => void;
+
+  /**
+   * Appends a middleware to the pipeline around every handler. Middleware runs
+   * in registration order, outermost first, and is shared with scopes. On a
+   * tenant's instance it only applies to that tenant, inside the middleware of
+   * the base instance.
+   *
+   * @param middleware - The middleware to register
+   * @returns The same permissions instance
+   *
+   * @example
+   * ```typescript
+   * permissions.use(({ ctx, next }) =>
+   *   ctx.actor.banned ? deny('account banned', 'BANNED') : next()
+   * );
+   * ```
+   */
+  use: (middleware: Middleware) => Permissions<T, S>;
+
+  /**
+   * Compiles the declarative condition of an action into a database-neutral
+   * query over the entity's fields, with the actor's values substituted.
+   * Render it with `toSql()` or `toMongo()` to filter entities in the database
+   * instead of in memory. Middleware, such as roles, is not part of the query.
+   *
+   * @param resource - The name of the resource
+   * @param action - The action, whose handler must come from `conditionHandler()` or `compilePolicy()`
+   * @param actor - The actor performing the action
+   * @param options - Attributes substituted into the condition
+   * @returns The query matching the entities the actor may act on
+   * @throws {QueryCompileError} When the action is not declarative, instance rules target it, or the condition compares two entity fields
+   *
+   * @example
+   * ```typescript
+   * const query = permissions.toQuery('post', 'read', user);
+   * const { sql, params } = toSql(query);
+   * await db.query(`SELECT * FROM posts WHERE ${sql}`, params);
+   * ```
+   */
+  toQuery: <
+    R extends ResourcePathOf<T, S>,
+    A extends ActionsOf<DefinitionOf<T, R, S>>
+  >(
+    resource: R,
+    action: A,
+    actor: ActorOf<HandlersOf<DefinitionOf<T, R, S>>>,
+    options?: QueryOptions<
+      AttributesTypeOf<HandlersOf<DefinitionOf<T, R, S>>, A>
+    >
+  ) => QueryNode;
+
+  /**
+   * Partially evaluates the declarative condition of an action with only what
+   * is known, typically the actor, to tell what else the check requires. The
+   * result is the remaining condition over the entity and attributes, or
+   * `true` / `false` when the known values already decide the check.
+   *
+   * @param resource - The name of the resource
+   * @param action - The action, whose handler must come from `conditionHandler()` or `compilePolicy()`
+   * @param ctx - The actor, and the entity or attributes if known
+   * @returns The remaining condition, `true` or `false`
+   * @throws {QueryCompileError} When the action is not declarative or instance rules target it
+   *
+   * @example
+   * ```typescript
+   * permissions.residual('document', 'read', { actor: user });
+   * // { eq: ['entity.classification', 'internal'] }
+   * ```
+   */
+  residual: <
+    R extends ResourcePathOf<T, S>,
+    A extends ActionsOf<DefinitionOf<T, R, S>>
+  >(
+    resource: R,
+    action: A,
+    ctx: ResidualArgsOf<HandlersOf<DefinitionOf<T, R, S>>>
+  ) => Condition;
+
+  /**
+   * Returns a copy of an entity without the fields the actor may not see,
+   * according to the `fields` rules of the resource's definition. Nested
+   * objects and arrays are redacted too. Field rules do not run through
+   * middleware, caches or the audit log.
+   *
+   * @param resource - The name of the resource
+   * @param actor - The actor the entity is returned to
+   * @param entity - The entity, or an array of entities, to redact
+   * @param options - Replace hidden fields with a mask instead of removing them
+   * @returns The redacted copy, or a Promise of it for async field rules
+   *
+   * @example
+   * ```typescript
+   * const visible = await permissions.redact('user', viewer, employee);
+   * visible.salary; // number | undefined
+   *
+   * permissions.redact('user', viewer, employee, { mask: '***' });
+   * ```
+   */
+  redact: <R extends ResourcePathOf<T, S>, E>(
+    resource: R,
+    actor: ActorOf<HandlersOf<DefinitionOf<T, R, S>>>,
+    entity: E,
+    options?: RedactOptions
+  ) =>
+    | Redacted<E, FieldsOf<DefinitionOf<T, R, S>>>
+    | Promise<Redacted<E, FieldsOf<DefinitionOf<T, R, S>>>>;
+
+  /**
+   * Lists the registered resources, in the order they were added.
+   *
+   * @returns The resource names
+   *
+   * @example
+   * ```typescript
+   * permissions.resources(); // ['post', 'comment']
+   * ```
+   */
+  resources: () => ResourceNamesOf<T>[];
+
+  /**
+   * Lists the named actions of a resource, leaving out a `*` fallback handler.
+   *
+   * @param resource - The name of the resource
+   * @returns The action names
+   * @throws {UnknownResourceError} When the resource is not registered
+   *
+   * @example
+   * ```typescript
+   * permissions.actions('post'); // ['create', 'edit', 'delete']
+   * ```
+   */
+  actions: <R extends ResourcePathOf<T, S>>(
+    resource: R
+  ) => NamedActionsOf<DefinitionOf<T, R, S>>[];
+
+  /**
+   * Tells whether a resource, or an action of a resource, can be checked.
+   * Narrows the type of its argument, so names from user input can be passed
+   * to `can()` once checked: narrow the resource first, then the action.
+   *
+   * @param resource - The name of the resource
+   * @param action - The name of the action
+   * @returns Whether the resource and action exist
+   *
+   * @example
+   * ```typescript
+   * const { resource, action } = request.params;
+   * if (permissions.has(resource) && permissions.has(resource, action)) {
+   *   permissions.can(resource, action, { actor: user });
+   * }
+   * ```
+   */
+  has: {
+    (resource: string): resource is ResourcePathOf<T, S>;
+    <R extends ResourcePathOf<T, S>>(
+      resource: R,
+      action: string
+    ): action is ActionsOf<DefinitionOf<T, R, S>>;
+  };
+
+  /**
+   * Describes every registered resource and its actions with their declared
+   * metadata, for admin UIs and docs generators.
+   *
+   * @returns One description per resource, in the order they were added
+   *
+   * @example
+   * ```typescript
+   * permissions.describe();
+   * // [{ resource: 'post', description: 'Blog posts', actions: [
+   * //   { action: 'edit', description: 'Change a post', tags: ['content'],
+   * //     requiresEntity: true, async: false }
+   * // ] }]
+   * ```
+   */
+  describe: () => ResourceDescription[];
+}
+
+// Codes of the verdicts the `deny` error policy fails closed with
+const FAILURE_CODES: Record<Failure, string> = {
+  timeout: "TIMEOUT",
+  invalid: "INVALID_ARGS",
+  error: "HANDLER_ERROR",
+};
+
+// The value of a per-definition option for an action, given for every action
+// or in a map keyed by action
+function optionFor<V>(
+  option: V | Record<string, V> | undefined,
+  action: string
+): V | undefined {
+  if (typeof option === "object" && option !== null) {
+    return (option as Record<string, V>)[action];
+  }
+  return option;
+}
+
+// The named actions of a definition, leaving out the `*` fallback handler
+function actionNames(def: PermissionDefinition<any, any>) {
+  return Object.keys(def.handlers).filter((action) => action !== "*");
+}
+
+// The handler of an action, or the `*` fallback. Only own keys count, so
+// inherited names such as `toString` are not actions.
+function handlerOf(
+  def: PermissionDefinition<any, any>,
+  action: string
+): ActionHandler<any> | undefined {
+  const { handlers } = def;
+  if (Object.hasOwn(handlers, action)) return handlers[action];
+  return Object.hasOwn(handlers, "*") ? handlers["*"] : undefined;
+}
+
+// Build the lazy check object returned by the builder API
+function createCheck(
+  evaluate: (entity: unknown, attributes: unknown) => unknown,
+  entity?: unknown,
+  attributes?: unknown
+) {
+  const check = {
+    on: (entity: unknown) => createCheck(evaluate, entity, attributes),
+    with: (attributes: unknown) => createCheck(evaluate, entity, attributes),
+    check: () => evaluate(entity, attributes),
+    then: (onFulfilled?: any, onRejected?: any) =>
+      Promise.resolve()
+        .then(() => check.check())
+        .then(onFulfilled, onRejected),
+  };
+  return check;
 }
 
 /**
@@ -328,8 +1708,10 @@ export interface Permissions<
  * This is the main entry point for setting up your permission system.
  *
  * @template T - Array of PermissionDefinition types to include in this permissions instance
+ * @template S - The separator of hierarchical resource names, inferred from `options.separator`
  *
  * @param initialDefs - Optional array of permission definitions to initialize with
+ * @param options - Optional settings for the permissions instance
  * @returns A Permissions instance with type-safe access to all defined resources and actions
  *
  * @example
@@ -363,6 +1745,9 @@ export interface Permissions<
  * // Or use direct API
  * const canCreate = await permissions.can('post', 'create', { actor: user });
  *
+ * // Or throw an AuthorizationError when denied
+ * await permissions.authorize('post', 'edit', { actor: user, entity: post });
+ *
  * // Or get all actions for a resource
  * const postActions = permissions.can('post', { actor: user, entity: post });
  * const results = {
@@ -374,8 +1759,26 @@ export interface Permissions<
  * @public
  */
 export function createPermissions<
-  T extends readonly PermissionDefinition<any, any>[] = []
->(initialDefs?: T): Permissions<T> {
+  T extends readonly PermissionDefinition<any, any>[] = [],
+  const S extends string | false = ":"
+>(
+  initialDefs?: T,
+  options: PermissionsOptions<NoInfer<T>, S> = {}
+): Permissions<T, S> {
+  const {
+    actorId = idOf,
+    cache,
+    middleware = [],
+    audit,
+    roles,
+    rules = [],
+    combining = "deny-overrides",
+    separator = ":",
+    timeout,
+    errorPolicy = "throw",
+    tenants,
+    tenantOf = defaultTenantOf,
+  } = options;
   const defs = new Map<string, PermissionDefinition<any, any>>();
 
   // Add initial definitions if provided
@@ -385,48 +1788,675 @@ export function createPermissions<
     }
   }
 
+  const cacheOptions = { actorKey: actorId, ...cache };
+  const state: InstanceState = {
+    defs,
+    actorId,
+    middleware: [...middleware],
+    roles: roles?.middleware,
+    audit: audit && { actorId, ...audit },
+    rules,
+    combining,
+    separator,
+    timeout,
+    errorPolicy,
+    cacheOptions,
+    cache:
+      cache?.ttl !== undefined
+        ? createDecisionCache(cacheOptions, cache.ttl)
+        : undefined,
+    tenants,
+    tenantOf,
+    tenant: undefined,
+    views: new Map(),
+    dry: false,
+  };
+
+  return createInstance(state) as Permissions<T, S>;
+}
+
+// Read the tenant of a context from its actor
+function defaultTenantOf(ctx: Args<any, any, any>) {
+  const tenantId = ctx?.actor?.tenantId;
+  return tenantId === undefined || tenantId === null
+    ? undefined
+    : String(tenantId);
+}
+
+// Merge a definition into another of the same resource, action by action
+function mergeDefinitions(
+  existing: PermissionDefinition<any, any>,
+  definition: PermissionDefinition<any, any>
+): PermissionDefinition<any, any> {
+  return {
+    ...existing,
+    ...definition,
+    handlers: { ...existing.handlers, ...definition.handlers },
+    fields: { ...existing.fields, ...definition.fields },
+    metadata: { ...existing.metadata, ...definition.metadata },
+  };
+}
+
+// State shared between a permissions instance and the scopes created from it
+type InstanceState = {
+  defs: Map<string, PermissionDefinition<any, any>>;
+  actorId: (actor: any) => string | undefined;
+  middleware: Middleware[];
+  // The role grants, dispatched after every other middleware
+  roles: Middleware | undefined;
+  audit: Parameters<typeof audited>[0] | undefined;
+  rules: readonly Rule[];
+  combining: CombiningAlgorithm;
+  separator: string | false;
+  timeout: number | undefined;
+  errorPolicy: ErrorPolicy;
+  cacheOptions: CacheOptions;
+  cache: DecisionCache | undefined;
+  tenants: TenantOverlays | undefined;
+  tenantOf: (ctx: Args<any, any, any>) => string | undefined;
+  // The tenant an instance was resolved for, with its own definitions
+  tenant:
+    | {
+        id: string;
+        overlay: Map<string, PermissionDefinition<any, any>>;
+        // Middleware added with `use()` on the tenant's instance
+        middleware: Middleware[];
+      }
+    | undefined;
+  // Tenant instances, shared by the base instance and every instance derived from it
+  views: Map<string, { api: Permissions<any, any>; state: InstanceState }>;
+  // Whether checks skip the audit log and decision caches
+  dry: boolean;
+};
+
+// Build the public API over shared state. Scopes reuse the state of their parent
+// and add a memo of their own.
+function createInstance(state: InstanceState, memo?: DecisionCache) {
+  const { defs, actorId, tenant } = state;
+  // Tenant instances add to their own definitions, never to the base
+  const target = tenant?.overlay ?? defs;
+
+  function add(
+    definition: PermissionDefinition<any, any>,
+    options: AddOptions = {}
+  ) {
+    const { onConflict = "reject" } = options;
+    const existing = target.get(definition.resource);
+    // A tenant's definitions are merged over the base, so they conflict too
+    const registered = existing ?? (tenant && defs.get(definition.resource));
+
+    if (!registered || onConflict === "replace") {
+      target.set(definition.resource, definition);
+    } else if (onConflict === "merge") {
+      target.set(
+        definition.resource,
+        existing ? mergeDefinitions(existing, definition) : definition
+      );
+    } else {
+      throw new DuplicateResourceError(definition.resource);
+    }
+
+    return api as any;
+  }
+
+  // Resolve a resource name to its definition, falling back to the closest
+  // registered parent. Fallbacks keep the requested name so middleware, caches
+  // and decisions report what was asked for.
+  function definitionFor(resource: string) {
+    const { separator } = state;
+    for (let name = resource; ; ) {
+      const def = lookup(name);
+      if (def) return name === resource ? def : { ...def, resource };
+
+      const index = separator ? name.lastIndexOf(separator) : -1;
+      if (index <= 0) throw new UnknownResourceError(resource);
+      name = name.slice(0, index);
+    }
+  }
+
+  // The definition registered under a name, with the tenant's overrides
+  function lookup(name: string) {
+    const base = defs.get(name);
+    const override = tenant?.overlay.get(name);
+    if (!override) return base;
+    return base ? mergeDefinitions(base, override) : override;
+  }
+
+  // Refuse contexts of other tenants in a tenant's instance
+  function assertTenant(ctx: any) {
+    if (!tenant) return;
+    const tenantId = state.tenantOf(ctx);
+    if (tenantId !== tenant.id) {
+      throw new TenantMismatchError(tenant.id, tenantId);
+    }
+  }
+
+  function assertAction(def: PermissionDefinition<any, any>, action: string) {
+    if (!handlerOf(def, action)) {
+      throw new UnknownActionError(def.resource, action);
+    }
+  }
+
+  // Every entry point funnels through here to run the middleware pipeline
+  function evaluate(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    ctx: any
+  ) {
+    const { audit } = state;
+    // A tenant's own middleware runs inside the middleware of the base
+    const middleware = tenant
+      ? [...state.middleware, ...tenant.middleware]
+      : state.middleware;
+    // Role grants stay innermost, so middleware added with `use()` still
+    // runs before them
+    const dispatch = (index: number, ctx: any): any => {
+      const current = middleware[index];
+      if (!current) {
+        return state.roles
+          ? granted(def, action, ctx)
+          : invoke(def, action, ctx);
+      }
+      return current({
+        resource: def.resource,
+        action,
+        ctx,
+        next: (next = ctx) => dispatch(index + 1, next),
+      });
+    };
+
+    // Validate before any middleware, so role grants and middleware decisions
+    // only ever see valid arguments. Contexts of other tenants are refused
+    // inside the audit, so the attempts are recorded.
+    const run = () => {
+      assertTenant(ctx);
+      let args: any;
+      try {
+        args = validateArgs(def.validate, def.resource, action, ctx);
+      } catch (error) {
+        return recover(def, action, ctx, error);
+      }
+      return dispatch(0, args);
+    };
+
+    return audit && !state.dry
+      ? audited(audit, def.resource, action, ctx, run, def.metadata?.[action])
+      : run();
+  }
+
+  // Run a single action handler, consulting the decision caches
+  function invoke(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    ctx: any
+  ) {
+    const run = (ctx: any) =>
+      withRules(def, action, handlerOf(def, action)!, ctx);
+
+    const cached = (ctx: any) => {
+      if (state.dry) return run(ctx);
+      const caches = [memo, state.cache].filter((c) => c !== undefined);
+      const keys = caches[0]?.keysFor(def.resource, action, ctx);
+      if (!keys) return run(ctx);
+
+      return caches.reduceRight<() => unknown>(
+        (next, cache) => () => cache.remember(keys, next),
+        () => run(ctx)
+      )();
+    };
+
+    return guarded(def, action, ctx, cached);
+  }
+
+  // Combine a handler with the instance-wide rules targeting its action
+  function withRules(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    handler: ActionHandler<any>,
+    ctx: any
+  ) {
+    const rules = state.rules.filter((rule) =>
+      targets(rule, def.resource, action, state.separator || undefined)
+    );
+    if (rules.length === 0 && !hasRules(handler)) return handler(ctx);
+
+    return combine(
+      [...rules.map(ruleEvaluator), ...evaluatorsOf(handler)],
+      def.combining ?? state.combining,
+      ctx
+    );
+  }
+
+  // Apply the role grants. A grant stands in for the action handler, so the
+  // instance-wide rules, such as a `forbid()` for suspended actors, still
+  // apply to it
+  function granted(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    ctx: any
+  ) {
+    let handled = false;
+    const result = state.roles!({
+      resource: def.resource,
+      action,
+      ctx,
+      next: (next = ctx): any => {
+        handled = true;
+        return invoke(def, action, next);
+      },
+    });
+    return chain(result, (result) =>
+      handled || !isAllowed(result)
+        ? result
+        : guarded(def, action, ctx, (ctx) =>
+            withRules(def, action, () => result, ctx)
+          )
+    );
+  }
+
+  // Apply the timeout and error policy of an action around its evaluation.
+  // Without either, or a signal from the caller, the handler runs untouched.
+  function guarded(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    ctx: any,
+    run: (ctx: any) => unknown
+  ) {
+    const timeout = optionFor(def.timeout, action) ?? state.timeout;
+    const policy = optionFor(def.errorPolicy, action) ?? state.errorPolicy;
+    if (timeout === undefined && policy === "throw" && !ctx?.signal) {
+      return run(ctx);
+    }
+
+    const { signal, clear } = timeoutSignal(
+      timeout,
+      () => new HandlerTimeoutError(def.resource, action, timeout!),
+      ctx?.signal
+    );
+    const args = signal ? { ...ctx, signal } : ctx;
+
+    const fail = (error: unknown) => {
+      if (ctx?.signal?.aborted) throw error;
+      return recover(def, action, args, error);
+    };
+
+    let result: unknown;
+    try {
+      result = run(args);
+    } catch (error) {
+      clear();
+      return fail(error);
+    }
+    if (!isPromiseLike(result)) {
+      clear();
+      return result;
+    }
+    return (signal ? abortable(result, signal) : Promise.resolve(result))
+      .catch(fail)
+      .finally(clear);
+  }
+
+  // Apply the error policy of an action to an error raised while evaluating it
+  function recover(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    ctx: any,
+    error: unknown
+  ) {
+    const policy = optionFor(def.errorPolicy, action) ?? state.errorPolicy;
+    if (policy === "throw") throw error;
+    const failure = failureOf(error);
+    if (policy === "deny") {
+      return failed(
+        deny(
+          error instanceof Error ? error.message : String(error),
+          FAILURE_CODES[failure]
+        ),
+        failure,
+        error
+      );
+    }
+    return chain(
+      policy(error, { resource: def.resource, action, failure, ctx }),
+      (result) => failed(result, failure, error)
+    );
+  }
+
+  function decide(
+    def: PermissionDefinition<any, any>,
+    action: string,
+    ctx: unknown
+  ) {
+    const start = performance.now();
+    return chain(evaluate(def, action, ctx), (result) =>
+      toDecision(def.resource, action, result, performance.now() - start)
+    );
+  }
+
+  function enforce(decision: Decision, actor: unknown) {
+    if (!decision.allowed) {
+      throw new AuthorizationError({
+        resource: decision.resource,
+        action: decision.action,
+        actorId: actorId(actor),
+        reason: decision.reason,
+        code: decision.code,
+      });
+    }
+  }
+
   function get(resource: string) {
-    const def = defs.get(resource);
-    if (!def)
-      throw new Error(`No permission definition for resource: ${resource}`);
+    const def = definitionFor(resource);
+
+    const assert: ResourceAccessor<typeof def, void> = (actor) => {
+      const invoker: Record<string, any> = {};
+      for (const action of actionNames(def)) {
+        invoker[action] = (entity?: unknown, attributes?: unknown) =>
+          createCheck(
+            (entity, attributes) =>
+              chain(decide(def, action, { actor, entity, attributes }), (d) =>
+                enforce(d, actor)
+              ),
+            entity,
+            attributes
+          );
+      }
+      return invoker as ActionInvoker<typeof def, void>;
+    };
 
     const can: ResourceAccessor<typeof def> = (actor) => {
       const invoker: Record<string, any> = {};
-      for (const action of Object.keys(def.handlers)) {
+      for (const action of actionNames(def)) {
         invoker[action] = (entity?: unknown, attributes?: unknown) =>
-          def.handlers[action]({ actor, entity, attributes });
+          createCheck(
+            (entity, attributes) =>
+              chain(
+                evaluate(def, action, { actor, entity, attributes }),
+                toAllowed
+              ),
+            entity,
+            attributes
+          );
       }
-      return invoker as ActionInvoker<typeof def>;
+      // An action named `assert` takes precedence over the throwing variants
+      invoker.assert ??= assert(actor);
+      return invoker as CheckInvoker<typeof def>;
     };
 
-    return { can } as any;
+    return { can, assert } as any;
   }
 
   function can(resource: string, actionOrCtx: any, ctx?: any) {
-    const def = defs.get(resource);
-    if (!def)
-      throw new Error(`No permission definition for resource: ${resource}`);
+    const def = definitionFor(resource);
 
     // Check if we have the new signature: can(resource, action, ctx)
     if (typeof actionOrCtx === "string" && ctx !== undefined) {
       const action = actionOrCtx;
-      if (!(action in def.handlers)) {
-        throw new Error(
-          `No handler for action '${action}' on resource '${resource}'`
-        );
-      }
-      return def.handlers[action](ctx);
+      assertAction(def, action);
+      return chain(evaluate(def, action, ctx), toAllowed);
     }
 
     // Original signature: can(resource, ctx)
     const result: Record<string, any> = {};
-    for (const action of Object.keys(def.handlers)) {
-      result[action] = () => def.handlers[action](actionOrCtx);
+    for (const action of actionNames(def)) {
+      result[action] = () =>
+        chain(evaluate(def, action, actionOrCtx), toAllowed);
     }
     return result as ActionObject<typeof def>;
   }
 
-  const api = { get, can } as Permissions<T>;
+  function explain(resource: string, action: string, ctx: unknown) {
+    const def = definitionFor(resource);
+    assertAction(def, action);
+    return decide(def, action, ctx);
+  }
+
+  async function authorize(resource: string, action: string, ctx: any) {
+    const def = definitionFor(resource);
+    assertAction(def, action);
+    enforce(await decide(def, action, ctx), ctx?.actor);
+  }
+
+  async function evaluateAll(resource: string, ctx: unknown) {
+    const def = definitionFor(resource);
+    const actions = actionNames(def);
+    const results = await Promise.all(
+      actions.map((action) => chain(evaluate(def, action, ctx), toAllowed))
+    );
+    return Object.fromEntries(
+      actions.map((action, index) => [action, results[index]])
+    );
+  }
+
+  async function matrix(
+    actor: unknown,
+    entries: readonly ({ resource: string; actions?: readonly string[] } & {
+      entity?: unknown;
+      attributes?: unknown;
+    })[],
+    options: MatrixOptions = {}
+  ) {
+    const { concurrency = Infinity } = options;
+
+    // Resolve everything up front so configuration errors surface before any handler runs
+    const checks = entries.flatMap(({ resource, actions, ...rest }, index) => {
+      const def = definitionFor(resource);
+      const ctx = { ...rest, actor };
+      return (actions ?? actionNames(def)).map((action) => {
+        assertAction(def, action);
+        return { index, def, action, ctx };
+      });
+    });
+
+    const results = await mapConcurrent(
+      checks,
+      concurrency,
+      ({ def, action, ctx }) => chain(evaluate(def, action, ctx), toAllowed)
+    );
+
+    const rows = entries.map(() => ({} as Record<string, boolean>));
+    checks.forEach(({ index, action }, i) => {
+      rows[index]![action] = results[i]!;
+    });
+    return rows;
+  }
+
+  async function partition(
+    resource: string,
+    action: string,
+    actor: unknown,
+    entities: Iterable<unknown> | AsyncIterable<unknown>,
+    options: FilterOptions = {}
+  ) {
+    const { attributes, concurrency = Infinity } = options;
+    const def = definitionFor(resource);
+    assertAction(def, action);
+
+    const items: unknown[] = [];
+    for await (const entity of entities) items.push(entity);
+
+    const results = await mapConcurrent(items, concurrency, (entity) =>
+      chain(evaluate(def, action, { actor, entity, attributes }), toAllowed)
+    );
+
+    const allowed: unknown[] = [];
+    const denied: unknown[] = [];
+    items.forEach((entity, index) => {
+      (results[index] === true ? allowed : denied).push(entity);
+    });
+    return [allowed, denied];
+  }
+
+  async function filter(
+    resource: string,
+    action: string,
+    actor: unknown,
+    entities: Iterable<unknown> | AsyncIterable<unknown>,
+    options?: FilterOptions
+  ) {
+    const [allowed] = await partition(
+      resource,
+      action,
+      actor,
+      entities,
+      options
+    );
+    return allowed;
+  }
+
+  function scope() {
+    return createInstance(state, createDecisionCache(state.cacheOptions));
+  }
+
+  function dryRun() {
+    return createInstance({ ...state, dry: true });
+  }
+
+  // Dry views resolve a dry view of the tenant's instance
+  function forTenant(tenantId: string): Permissions<any, any> {
+    const existing = state.views.get(tenantId);
+    if (existing) return state.dry ? existing.api.dryRun() : existing.api;
+
+    const { tenants, cacheOptions, cache } = state;
+    const overlay = new Map<string, PermissionDefinition<any, any>>();
+    const definitions =
+      typeof tenants === "function" ? tenants(tenantId) : tenants?.[tenantId];
+    for (const definition of definitions ?? []) {
+      const existing = overlay.get(definition.resource);
+      overlay.set(
+        definition.resource,
+        existing ? mergeDefinitions(existing, definition) : definition
+      );
+    }
+
+    const view: InstanceState = {
+      ...state,
+      tenant: { id: tenantId, overlay, middleware: [] },
+      cache: cache && createDecisionCache(cacheOptions, cacheOptions.ttl),
+      dry: false,
+    };
+    const api = createInstance(view);
+    state.views.set(tenantId, { api, state: view });
+    return state.dry ? api.dryRun() : api;
+  }
+
+  // The base instance also drops the decisions cached by its tenants
+  function invalidate(filter?: InvalidateFilter) {
+    memo?.invalidate(filter);
+    state.cache?.invalidate(filter);
+    if (!tenant) {
+      for (const view of state.views.values()) {
+        view.state.cache?.invalidate(filter);
+      }
+    }
+  }
+
+  function use(middleware: Middleware) {
+    (tenant?.middleware ?? state.middleware).push(middleware);
+    return api;
+  }
+
+  function redact(
+    resource: string,
+    actor: unknown,
+    entity: unknown,
+    options?: RedactOptions
+  ) {
+    assertTenant({ actor, entity });
+    const def = definitionFor(resource);
+    return redactFields(def.fields ?? {}, { actor, entity }, options);
+  }
+
+  // The condition behind an action, when nothing else takes part in its checks
+  function declarativeCondition(resource: string, action: string) {
+    const def = definitionFor(resource);
+    assertAction(def, action);
+
+    const condition = conditionOf(handlerOf(def, action)!);
+    if (condition === undefined) {
+      throw new QueryCompileError(
+        `Action '${action}' on resource '${resource}' has no declarative condition`
+      );
+    }
+    if (
+      state.rules.some((rule) =>
+        targets(rule, def.resource, action, state.separator || undefined)
+      )
+    ) {
+      throw new QueryCompileError(
+        `Action '${action}' on resource '${resource}' is targeted by rules that cannot be compiled`
+      );
+    }
+    return condition;
+  }
+
+  function toQuery(
+    resource: string,
+    action: string,
+    actor: unknown,
+    options: QueryOptions = {}
+  ) {
+    assertTenant({ actor, attributes: options.attributes });
+    return compileQuery(declarativeCondition(resource, action), {
+      actor,
+      attributes: options.attributes,
+    });
+  }
+
+  function residual(
+    resource: string,
+    action: string,
+    ctx: { actor: unknown; entity?: unknown; attributes?: unknown }
+  ) {
+    assertTenant(ctx);
+    return residualCondition(declarativeCondition(resource, action), ctx);
+  }
+
+  function resources() {
+    return [...new Set([...defs.keys(), ...(tenant?.overlay.keys() ?? [])])];
+  }
+
+  function actions(resource: string) {
+    return actionNames(definitionFor(resource));
+  }
+
+  function has(resource: string, action?: string) {
+    let def: PermissionDefinition<any, any>;
+    try {
+      def = definitionFor(resource);
+    } catch {
+      return false;
+    }
+    return action === undefined || handlerOf(def, action) !== undefined;
+  }
+
+  function describe() {
+    return resources().map((name) => describeDefinition(lookup(name)!));
+  }
+
+  const api: Permissions<any, any> = {
+    get,
+    can,
+    add,
+    explain,
+    authorize,
+    evaluateAll,
+    matrix,
+    filter,
+    partition,
+    scope,
+    dryRun,
+    forTenant,
+    invalidate,
+    use,
+    toQuery,
+    residual,
+    redact,
+    resources,
+    actions,
+    has,
+    describe,
+  } as Permissions<any, any>;
   return api;
 }
 
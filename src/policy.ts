@@ -0,0 +1,617 @@
+import type {
+  ActionHandler,
+  Args,
+  AttributeValue,
+  PermissionDefinition,
+} from "./index.js";
+
+/**
+ * A dotted path into the handler arguments, rooted at `actor`, `entity` or
+ * `attributes` (e.g. `actor.id`, `entity.owner.id`).
+ *
+ * @public
+ */
+export type PolicyPath =
+  | "actor"
+  | "entity"
+  | "attributes"
+  | `actor.${string}`
+  | `entity.${string}`
+  | `attributes.${string}`;
+
+/**
+ * The right-hand side of a comparison: a literal value, a list of literal
+ * values (for `in`), or a reference to another path.
+ *
+ * @public
+ */
+export type PolicyOperand =
+  | AttributeValue
+  | readonly AttributeValue[]
+  | { ref: PolicyPath };
+
+/**
+ * A serializable condition over the actor, entity and attributes of a check.
+ *
+ * - `true` / `false` - constant outcome
+ * - `{ and: [...] }`, `{ or: [...] }`, `{ not: ... }` - logical combinations
+ * - `{ eq: [path, operand] }` and `ne`, `gt`, `gte`, `lt`, `lte` - comparisons
+ * - `{ in: [path, operand] }` - the value at `path` is one of the operand's values
+ * - `{ contains: [path, operand] }` - the array or string at `path` contains the operand
+ * - `{ exists: path }` - the value at `path` is neither `null` nor `undefined`
+ *
+ * @example
+ * ```json
+ * {
+ *   "or": [
+ *     { "eq": ["actor.role", "admin"] },
+ *     { "eq": ["actor.id", { "ref": "entity.authorId" }] }
+ *   ]
+ * }
+ * ```
+ *
+ * @public
+ */
+export type Condition =
+  | boolean
+  | { and: readonly Condition[] }
+  | { or: readonly Condition[] }
+  | { not: Condition }
+  | { eq: readonly [PolicyPath, PolicyOperand] }
+  | { ne: readonly [PolicyPath, PolicyOperand] }
+  | { gt: readonly [PolicyPath, PolicyOperand] }
+  | { gte: readonly [PolicyPath, PolicyOperand] }
+  | { lt: readonly [PolicyPath, PolicyOperand] }
+  | { lte: readonly [PolicyPath, PolicyOperand] }
+  | { in: readonly [PolicyPath, PolicyOperand] }
+  | { contains: readonly [PolicyPath, PolicyOperand] }
+  | { exists: PolicyPath };
+
+/**
+ * A serializable policy for one resource, mapping each action to a condition.
+ *
+ * @public
+ */
+export type PolicyDocument<
+  R extends string = string,
+  A extends string = string
+> = {
+  /** The resource the policy applies to */
+  resource: R;
+  /** The condition that must hold for each action */
+  actions: Record<A, Condition>;
+};
+
+/**
+ * A single problem found while validating a policy.
+ *
+ * @public
+ */
+export type PolicyIssue = {
+  /** JSON path of the offending value, e.g. `$.actions.read.or[1].eq[0]` */
+  path: string;
+  /** What is wrong with the value */
+  message: string;
+};
+
+/**
+ * Thrown by `compilePolicy()` when a policy is malformed. Every problem found is
+ * listed in `issues`, each pointing at the offending JSON path.
+ *
+ * @public
+ */
+export class PolicyValidationError extends Error {
+  /** Every problem found in the policy */
+  readonly issues: PolicyIssue[];
+
+  constructor(issues: PolicyIssue[]) {
+    super(
+      `Invalid policy: ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "PolicyValidationError";
+    this.issues = issues;
+  }
+}
+
+const COMPARISONS = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "contains"];
+const OPERATORS = ["and", "or", "not", "exists", ...COMPARISONS];
+const ROOTS = ["actor", "entity", "attributes"];
+
+// Conditions of compiled handlers, so tooling can inspect them later
+const conditions = new WeakMap<Function, Condition>();
+
+/**
+ * Compiles a serializable policy into a `PermissionDefinition` usable with
+ * `createPermissions()`.
+ *
+ * @param policy - The policy document, or its JSON source
+ * @returns A PermissionDefinition whose handlers evaluate the policy's conditions
+ * @throws {PolicyValidationError} When the policy is malformed
+ *
+ * @example
+ * ```typescript
+ * const documentPermissions = compilePolicy({
+ *   resource: 'document',
+ *   actions: {
+ *     read: {
+ *       or: [
+ *         { eq: ['entity.classification', 'public'] },
+ *         { eq: ['actor.department', { ref: 'entity.department' }] }
+ *       ]
+ *     },
+ *     delete: { eq: ['actor.role', 'admin'] }
+ *   }
+ * });
+ *
+ * const permissions = createPermissions([documentPermissions]);
+ *
+ * // JSON source carries no types, so name the resource and actions explicitly
+ * const fromFile = compilePolicy<'document', 'read' | 'delete'>(source);
+ * ```
+ *
+ * @public
+ */
+export function compilePolicy<R extends string, A extends string>(
+  policy: PolicyDocument<R, A> | string
+): PermissionDefinition<R, Record<A, ActionHandler<Args<any, any, any>>>> {
+  const source = typeof policy === "string" ? parse(policy) : policy;
+  const issues = validatePolicy(source);
+  if (issues.length > 0) throw new PolicyValidationError(issues);
+  const document = source as PolicyDocument<R, A>;
+
+  const handlers = {} as Record<A, ActionHandler<Args<any, any, any>>>;
+  for (const [action, condition] of Object.entries<Condition>(
+    document.actions
+  )) {
+    handlers[action as A] = conditionHandler(condition);
+  }
+  return { resource: document.resource, handlers };
+}
+
+/**
+ * Validates a policy document without compiling it.
+ *
+ * @param policy - The value to validate
+ * @returns Every problem found, empty when the policy is valid
+ *
+ * @public
+ */
+export function validatePolicy(policy: unknown): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+
+  if (!isObject(policy)) {
+    issues.push({ path: "$", message: "Expected a policy object" });
+    return issues;
+  }
+  if (typeof policy.resource !== "string" || policy.resource === "") {
+    issues.push({
+      path: "$.resource",
+      message: "Expected a non-empty string",
+    });
+  }
+  if (!isObject(policy.actions)) {
+    issues.push({
+      path: "$.actions",
+      message: "Expected an object of action conditions",
+    });
+    return issues;
+  }
+  for (const [action, condition] of Object.entries(policy.actions)) {
+    validateCondition(condition, `$.actions.${action}`, issues);
+  }
+  return issues;
+}
+
+/**
+ * Creates an action handler that evaluates a condition.
+ *
+ * @param condition - The condition to evaluate
+ * @returns An ActionHandler returning whether the condition holds
+ *
+ * @public
+ */
+export function conditionHandler(
+  condition: Condition
+): ActionHandler<Args<any, any, any>> {
+  const handler = (args: Args<any, any, any>) =>
+    evaluateCondition(condition, args);
+  conditions.set(handler, condition);
+  return handler;
+}
+
+/**
+ * Returns the condition a handler was created from with `conditionHandler()` or
+ * `compilePolicy()`, if any.
+ *
+ * @public
+ */
+export function conditionOf(handler: Function): Condition | undefined {
+  return conditions.get(handler);
+}
+
+/**
+ * Evaluates a condition against a set of handler arguments.
+ *
+ * @param condition - The condition to evaluate
+ * @param args - The actor, entity and attributes of the check
+ * @returns Whether the condition holds
+ *
+ * @public
+ */
+export function evaluateCondition(
+  condition: Condition,
+  args: Args<any, any, any>
+): boolean {
+  if (typeof condition === "boolean") return condition;
+  if ("and" in condition)
+    return condition.and.every((c) => evaluateCondition(c, args));
+  if ("or" in condition)
+    return condition.or.some((c) => evaluateCondition(c, args));
+  if ("not" in condition) return !evaluateCondition(condition.not, args);
+  if ("exists" in condition) {
+    const value = resolvePath(args, condition.exists);
+    return value !== undefined && value !== null;
+  }
+
+  const [operator, [path, operand]] = Object.entries(condition)[0] as [
+    string,
+    [PolicyPath, PolicyOperand]
+  ];
+  return compare(
+    operator,
+    resolvePath(args, path),
+    resolveOperand(args, operand)
+  );
+}
+
+/**
+ * Partially evaluates a condition with the values known so far, typically only
+ * the actor. Comparisons that the known values decide are folded away, leaving
+ * a condition over the unknown entity and attributes, or a constant when the
+ * known values decide the whole condition.
+ *
+ * @param condition - The condition to simplify
+ * @param args - The actor, and the entity and attributes if known
+ * @returns The remaining condition, `true` or `false`
+ *
+ * @example
+ * ```typescript
+ * residualCondition(
+ *   { or: [{ eq: ['actor.role', 'admin'] }, { eq: ['entity.classification', 'internal'] }] },
+ *   { actor: { role: 'user' } }
+ * );
+ * // { eq: ['entity.classification', 'internal'] }
+ * ```
+ *
+ * @public
+ */
+export function residualCondition(
+  condition: Condition,
+  args: { actor: unknown; entity?: unknown; attributes?: unknown }
+): Condition {
+  if (typeof condition === "boolean") return condition;
+  if ("and" in condition) {
+    return combineResidual(
+      "and",
+      condition.and.map((c) => residualCondition(c, args))
+    );
+  }
+  if ("or" in condition) {
+    return combineResidual(
+      "or",
+      condition.or.map((c) => residualCondition(c, args))
+    );
+  }
+  if ("not" in condition) {
+    const inner = residualCondition(condition.not, args);
+    if (typeof inner === "boolean") return !inner;
+    return "not" in inner ? inner.not : { not: inner };
+  }
+  if ("exists" in condition) {
+    if (!isKnown(args, condition.exists)) return condition;
+    const value = resolvePath(args, condition.exists);
+    return value !== undefined && value !== null;
+  }
+
+  const [operator, [path, operand]] = Object.entries(condition)[0] as [
+    string,
+    [PolicyPath, PolicyOperand]
+  ];
+  const reference = isReference(operand) ? operand.ref : undefined;
+  const rightKnown = reference === undefined || isKnown(args, reference);
+
+  if (isKnown(args, path)) {
+    const left = resolvePath(args, path);
+    if (rightKnown) {
+      return compare(operator, left, resolveOperand(args, operand));
+    }
+    return flippedResidual(operator, reference!, left) ?? condition;
+  }
+  if (reference !== undefined && rightKnown) {
+    return comparisonResidual(operator, path, resolvePath(args, reference));
+  }
+  return condition;
+}
+
+// Whether the root of a path was given to `residualCondition()`
+function isKnown(args: Record<string, unknown>, path: string) {
+  return args[path.split(".")[0]!] !== undefined;
+}
+
+function combineResidual(
+  operator: "and" | "or",
+  conditions: Condition[]
+): Condition {
+  // The constant that decides the combination on its own
+  const decisive = operator === "or";
+  if (conditions.includes(decisive)) return decisive;
+
+  const rest = conditions.filter((c) => typeof c !== "boolean");
+  if (rest.length === 0) return !decisive;
+  if (rest.length === 1) return rest[0]!;
+  return operator === "and" ? { and: rest } : { or: rest };
+}
+
+// A comparison of an unknown path with a known value, folded to a constant
+// when the in-memory semantics could never match it. A known `undefined` only
+// equals a missing value, which is neither `null` nor present.
+function comparisonResidual(
+  operator: string,
+  path: PolicyPath,
+  value: unknown
+): Condition {
+  if (operator === "in") {
+    if (!Array.isArray(value)) return false;
+    const values: Condition = { in: [path, value.filter(isAttributeValue)] };
+    return value.includes(undefined)
+      ? { or: [values, missingResidual(path)] }
+      : values;
+  }
+  if (value === undefined) {
+    if (operator === "eq") return missingResidual(path);
+    if (operator === "ne") return { not: missingResidual(path) };
+    // An array may hold `undefined`, so only the ordering operators fold
+    return operator === "contains" ? { contains: [path, undefined] } : false;
+  }
+  if (!isAttributeValue(value)) return operator === "ne";
+  if (
+    ["gt", "gte", "lt", "lte"].includes(operator) &&
+    typeof value !== "number" &&
+    typeof value !== "string"
+  ) {
+    return false;
+  }
+  return { [operator]: [path, value] } as unknown as Condition;
+}
+
+// Whether a path resolves to `undefined`
+function missingResidual(path: PolicyPath): Condition {
+  return { and: [{ not: { exists: path } }, { ne: [path, null] }] };
+}
+
+// A comparison of a known value with an unknown path, rewritten so the path
+// comes first. A substring match against a known string cannot be rewritten.
+function flippedResidual(
+  operator: string,
+  path: PolicyPath,
+  value: unknown
+): Condition | undefined {
+  const flipped: Record<string, string> = {
+    eq: "eq",
+    ne: "ne",
+    gt: "lt",
+    gte: "lte",
+    lt: "gt",
+    lte: "gte",
+    in: "contains",
+  };
+  if (flipped[operator]) {
+    return comparisonResidual(flipped[operator]!, path, value);
+  }
+  if (Array.isArray(value)) return comparisonResidual("in", path, value);
+  return typeof value === "string" ? undefined : false;
+}
+
+// Apply a comparison operator to two resolved values
+export function compare(
+  operator: string,
+  left: unknown,
+  right: unknown
+): boolean {
+  switch (operator) {
+    case "eq":
+      return left === right;
+    case "ne":
+      return left !== right;
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      if (
+        !(
+          (typeof left === "number" && typeof right === "number") ||
+          (typeof left === "string" && typeof right === "string")
+        )
+      ) {
+        return false;
+      }
+      return operator === "gt"
+        ? left > right
+        : operator === "gte"
+        ? left >= right
+        : operator === "lt"
+        ? left < right
+        : left <= right;
+    case "in":
+      return Array.isArray(right) && right.includes(left);
+    case "contains":
+      if (Array.isArray(left)) return left.includes(right);
+      return (
+        typeof left === "string" &&
+        typeof right === "string" &&
+        left.includes(right)
+      );
+    default:
+      return false;
+  }
+}
+
+export function resolvePath(args: unknown, path: string): unknown {
+  let value: any = args;
+  for (const segment of path.split(".")) {
+    if (value === null || value === undefined) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+export function isReference(operand: unknown): operand is { ref: PolicyPath } {
+  return isObject(operand) && typeof operand.ref === "string";
+}
+
+function resolveOperand(args: unknown, operand: PolicyOperand): unknown {
+  return isReference(operand) ? resolvePath(args, operand.ref) : operand;
+}
+
+function validateCondition(
+  condition: unknown,
+  path: string,
+  issues: PolicyIssue[]
+) {
+  if (typeof condition === "boolean") return;
+  if (!isObject(condition)) {
+    issues.push({ path, message: "Expected a condition object or boolean" });
+    return;
+  }
+
+  const keys = Object.keys(condition);
+  const operator = keys[0];
+  if (keys.length !== 1 || !operator) {
+    issues.push({
+      path,
+      message: "Expected exactly one operator per condition",
+    });
+    return;
+  }
+  if (!OPERATORS.includes(operator)) {
+    issues.push({
+      path: `${path}.${operator}`,
+      message: `Unknown operator '${operator}'`,
+    });
+    return;
+  }
+
+  const value = condition[operator];
+  const valuePath = `${path}.${operator}`;
+
+  if (operator === "and" || operator === "or") {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path: valuePath,
+        message: "Expected an array of conditions",
+      });
+      return;
+    }
+    value.forEach((c, index) =>
+      validateCondition(c, `${valuePath}[${index}]`, issues)
+    );
+    return;
+  }
+  if (operator === "not") {
+    validateCondition(value, valuePath, issues);
+    return;
+  }
+  if (operator === "exists") {
+    validatePath(value, valuePath, issues);
+    return;
+  }
+
+  if (!Array.isArray(value) || value.length !== 2) {
+    issues.push({
+      path: valuePath,
+      message: "Expected a [path, operand] pair",
+    });
+    return;
+  }
+  validatePath(value[0], `${valuePath}[0]`, issues);
+  validateOperand(operator, value[1], `${valuePath}[1]`, issues);
+}
+
+function validatePath(path: unknown, at: string, issues: PolicyIssue[]) {
+  if (
+    typeof path !== "string" ||
+    !ROOTS.includes(path.split(".")[0]!) ||
+    path.split(".").some((segment) => segment === "")
+  ) {
+    issues.push({
+      path: at,
+      message:
+        "Expected a path starting with 'actor', 'entity' or 'attributes'",
+    });
+  }
+}
+
+function validateOperand(
+  operator: string,
+  operand: unknown,
+  at: string,
+  issues: PolicyIssue[]
+) {
+  if (isReference(operand)) {
+    validatePath(operand.ref, `${at}.ref`, issues);
+    return;
+  }
+  if (Array.isArray(operand)) {
+    if (operator !== "in") {
+      issues.push({
+        path: at,
+        message: `Operator '${operator}' does not accept a list of values`,
+      });
+      return;
+    }
+    operand.forEach((value, index) => {
+      if (!isAttributeValue(value)) {
+        issues.push({
+          path: `${at}[${index}]`,
+          message: "Expected a string, number, boolean or null",
+        });
+      }
+    });
+    return;
+  }
+  if (operator === "in") {
+    issues.push({
+      path: at,
+      message: "Operator 'in' expects a list of values or a reference",
+    });
+    return;
+  }
+  if (!isAttributeValue(operand)) {
+    issues.push({
+      path: at,
+      message: "Expected a string, number, boolean, null or { ref } operand",
+    });
+  }
+}
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  return (
+    value === null || ["string", "number", "boolean"].includes(typeof value)
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parse(source: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new PolicyValidationError([
+      { path: "$", message: (error as Error).message },
+    ]);
+  }
+}
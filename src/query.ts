@@ -0,0 +1,374 @@
+import type { AttributeValue } from "./index.js";
+import {
+  compare,
+  isReference,
+  residualCondition,
+  resolvePath,
+  type Condition,
+  type PolicyOperand,
+  type PolicyPath,
+} from "./policy.js";
+
+/**
+ * Comparison operators of a `QueryNode`, with the same semantics as in a
+ * `Condition`.
+ *
+ * @public
+ */
+export type QueryOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "contains";
+
+/**
+ * A database-neutral filter over the fields of an entity, returned by
+ * `permissions.toQuery()`. Fields are dotted paths relative to the entity
+ * (e.g. `owner.id`), and every actor and attribute value has been substituted.
+ *
+ * - `literal` - matches every entity (`true`) or none (`false`)
+ * - `and`, `or`, `not` - logical combinations
+ * - `exists` - the field is neither `null` nor `undefined`
+ * - `compare` - the field compared to a value with an operator
+ *
+ * @public
+ */
+export type QueryNode =
+  | { type: "literal"; value: boolean }
+  | { type: "and"; nodes: QueryNode[] }
+  | { type: "or"; nodes: QueryNode[] }
+  | { type: "not"; node: QueryNode }
+  | { type: "exists"; field: string }
+  | {
+      type: "compare";
+      operator: QueryOperator;
+      field: string;
+      value: AttributeValue | readonly AttributeValue[];
+    };
+
+/**
+ * Options accepted by `toSql()`.
+ *
+ * @public
+ */
+export type SqlOptions = {
+  /** Renders the placeholder of the n-th parameter, starting at 1 (defaults to `?`) */
+  placeholder?: (index: number) => string;
+  /** Renders the column of a field (defaults to quoting every dotted segment) */
+  column?: (field: string) => string;
+};
+
+/**
+ * A parameterized SQL fragment, ready to follow `WHERE`.
+ *
+ * @public
+ */
+export type SqlQuery = {
+  /** The fragment, with placeholders instead of values */
+  sql: string;
+  /** The values of the placeholders, in order */
+  params: unknown[];
+};
+
+/**
+ * Options accepted by `toMongo()`.
+ *
+ * @public
+ */
+export type MongoOptions = {
+  /** Renders the document path of a field (defaults to the field itself) */
+  field?: (field: string) => string;
+};
+
+/**
+ * Thrown by `permissions.toQuery()` and `permissions.residual()` when an
+ * action's condition cannot be compiled, e.g. when its handler is not
+ * declarative or the condition compares two entity fields.
+ *
+ * @public
+ */
+export class QueryCompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryCompileError";
+  }
+}
+
+// Substitute the actor and attributes into a condition, leaving a query over
+// the entity's fields. Branches decided by the known values are folded away.
+export function compileQuery(
+  condition: Condition,
+  args: { actor: unknown; attributes?: unknown }
+): QueryNode {
+  const { actor, attributes = {} } = args;
+  return toNode(residualCondition(condition, { actor, attributes }));
+}
+
+/**
+ * Evaluates a query against an entity in memory, with the semantics of the
+ * condition it was compiled from. Useful to check that a query selects the
+ * same entities the action's handler allows.
+ *
+ * @param query - The query to evaluate
+ * @param entity - The entity to match
+ * @returns Whether the entity matches the query
+ *
+ * @public
+ */
+export function matchesQuery(query: QueryNode, entity: unknown): boolean {
+  switch (query.type) {
+    case "literal":
+      return query.value;
+    case "and":
+      return query.nodes.every((node) => matchesQuery(node, entity));
+    case "or":
+      return query.nodes.some((node) => matchesQuery(node, entity));
+    case "not":
+      return !matchesQuery(query.node, entity);
+    case "exists": {
+      const value = resolvePath(entity, query.field);
+      return value !== undefined && value !== null;
+    }
+    case "compare":
+      return compare(
+        query.operator,
+        resolvePath(entity, query.field),
+        query.value
+      );
+  }
+}
+
+/**
+ * Renders a query as a parameterized SQL fragment. Missing fields are `NULL`
+ * in SQL, so `ne` also matches `NULL` columns, and a comparison with a `NULL`
+ * column counts as false under `NOT` too. `contains` only compiles for
+ * strings, as a `LIKE` substring match.
+ *
+ * @param query - The query to render
+ * @param options - Placeholder and column rendering
+ * @returns The fragment and its parameters
+ * @throws {QueryCompileError} When `contains` compares a non-string value
+ *
+ * @example
+ * ```typescript
+ * const { sql, params } = toSql(permissions.toQuery('post', 'read', user), {
+ *   placeholder: (index) => `$${index}`
+ * });
+ * await db.query(`SELECT * FROM posts WHERE ${sql}`, params);
+ * ```
+ *
+ * @public
+ */
+export function toSql(query: QueryNode, options: SqlOptions = {}): SqlQuery {
+  const { placeholder = () => "?", column = quoteColumn } = options;
+  const params: unknown[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return placeholder(params.length);
+  };
+
+  const render = (node: QueryNode): string => {
+    switch (node.type) {
+      case "literal":
+        return node.value ? "1 = 1" : "1 = 0";
+      case "and":
+      case "or":
+        return `(${node.nodes
+          .map(render)
+          .join(node.type === "and" ? " AND " : " OR ")})`;
+      case "not":
+        // Comparisons with NULL are unknown, which NOT keeps unknown
+        return `NOT (COALESCE(${render(node.node)}, FALSE))`;
+      case "exists":
+        return `${column(node.field)} IS NOT NULL`;
+      case "compare":
+        return renderComparison(node, column(node.field), param);
+    }
+  };
+
+  return { sql: render(query), params };
+}
+
+/**
+ * Renders a query as a MongoDB filter document. Comparisons with `null` only
+ * match fields that are `null`, as in memory, not missing ones.
+ *
+ * @param query - The query to render
+ * @param options - Field path rendering
+ * @returns The filter document
+ *
+ * @example
+ * ```typescript
+ * const filter = toMongo(permissions.toQuery('post', 'read', user));
+ * await db.collection('posts').find(filter).toArray();
+ * ```
+ *
+ * @public
+ */
+export function toMongo(
+  query: QueryNode,
+  options: MongoOptions = {}
+): Record<string, unknown> {
+  const { field = (name: string) => name } = options;
+
+  const render = (node: QueryNode): Record<string, unknown> => {
+    switch (node.type) {
+      case "literal":
+        return node.value ? {} : { $expr: false };
+      case "and":
+        return { $and: node.nodes.map(render) };
+      case "or":
+        return { $or: node.nodes.map(render) };
+      case "not":
+        return { $nor: [render(node.node)] };
+      case "exists":
+        return { [field(node.field)]: { $ne: null } };
+      case "compare": {
+        const { operator, value } = node;
+        if (operator === "contains") {
+          return {
+            [field(node.field)]:
+              typeof value === "string"
+                ? { $regex: escapeRegExp(value) }
+                : value,
+          };
+        }
+        return renderMongoComparison(node, field(node.field));
+      }
+    }
+  };
+
+  return render(query);
+}
+
+// Convert a condition whose only unknowns are entity fields
+function toNode(condition: Condition): QueryNode {
+  if (typeof condition === "boolean") return literal(condition);
+  if ("and" in condition) {
+    return { type: "and", nodes: condition.and.map(toNode) };
+  }
+  if ("or" in condition) {
+    return { type: "or", nodes: condition.or.map(toNode) };
+  }
+  if ("not" in condition) return { type: "not", node: toNode(condition.not) };
+  if ("exists" in condition) {
+    return { type: "exists", field: fieldOf(condition.exists) };
+  }
+
+  const [operator, [path, operand]] = Object.entries(condition)[0] as [
+    QueryOperator,
+    [PolicyPath, PolicyOperand]
+  ];
+  if (!path.startsWith("entity")) {
+    throw new QueryCompileError(
+      `Cannot match a field as a substring of '${path}' in a query`
+    );
+  }
+  if (isReference(operand)) {
+    throw new QueryCompileError(
+      `Cannot compare entity fields '${fieldOf(path)}' and '${fieldOf(
+        operand.ref
+      )}' in a query`
+    );
+  }
+  return { type: "compare", operator, field: fieldOf(path), value: operand };
+}
+
+// The path of a field relative to the entity
+function fieldOf(path: string) {
+  const [, ...field] = path.split(".");
+  if (field.length === 0) {
+    throw new QueryCompileError(
+      "Cannot compare the whole entity in a query, use one of its fields"
+    );
+  }
+  return field.join(".");
+}
+
+function renderComparison(
+  node: Extract<QueryNode, { type: "compare" }>,
+  column: string,
+  param: (value: unknown) => string
+): string {
+  const { operator, value } = node;
+  switch (operator) {
+    case "eq":
+      return value === null || value === undefined
+        ? `${column} IS NULL`
+        : `${column} = ${param(value)}`;
+    case "ne":
+      return value === null || value === undefined
+        ? `${column} IS NOT NULL`
+        : `(${column} <> ${param(value)} OR ${column} IS NULL)`;
+    case "gt":
+      return `${column} > ${param(value)}`;
+    case "gte":
+      return `${column} >= ${param(value)}`;
+    case "lt":
+      return `${column} < ${param(value)}`;
+    case "lte":
+      return `${column} <= ${param(value)}`;
+    case "in": {
+      const values = (value as readonly AttributeValue[]).filter(
+        (v) => v !== null && v !== undefined
+      );
+      const list =
+        values.length > 0
+          ? `${column} IN (${values.map(param).join(", ")})`
+          : "1 = 0";
+      return values.length < (value as readonly unknown[]).length
+        ? `(${list} OR ${column} IS NULL)`
+        : list;
+    }
+    case "contains":
+      if (typeof value !== "string") {
+        throw new QueryCompileError(
+          `Cannot render 'contains' on field '${node.field}' for a non-string value in SQL`
+        );
+      }
+      return `${column} LIKE ${param(
+        `%${value.replace(/[\\%_]/g, "\\$&")}%`
+      )} ESCAPE '\\'`;
+  }
+}
+
+function renderMongoComparison(
+  node: Extract<QueryNode, { type: "compare" }>,
+  path: string
+): Record<string, unknown> {
+  const { operator, value } = node;
+  // MongoDB's `null` also matches missing fields, unlike `$type: "null"`
+  const isNull = { $type: "null" };
+  if (value === null && (operator === "eq" || operator === "ne")) {
+    return { [path]: operator === "eq" ? isNull : { $not: isNull } };
+  }
+  if (operator === "in") {
+    const values = value as readonly AttributeValue[];
+    const present = values.filter((v) => v !== null);
+    if (present.length < values.length) {
+      return {
+        $or: [{ [path]: { $in: present } }, { [path]: isNull }],
+      };
+    }
+  }
+  return { [path]: { [`$${operator}`]: value } };
+}
+
+function quoteColumn(field: string) {
+  return field
+    .split(".")
+    .map((segment) => `"${segment.replace(/"/g, '""')}"`)
+    .join(".");
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function literal(value: boolean): QueryNode {
+  return { type: "literal", value };
+}
@@ -0,0 +1,387 @@
+import { chain, idOf, type MaybePromise } from "./utils.js";
+
+/**
+ * A relationship between an object and a subject, written
+ * `object#relation@subject` (e.g. `document:readme#owner@user:alice`).
+ *
+ * The subject is either an object (`user:alice`) or a userset naming every
+ * subject that has a relation on another object (`team:eng#member`).
+ *
+ * @public
+ */
+export type RelationTuple = {
+  /** The object the relation is on, as `type:id` */
+  object: string;
+  /** The relation name */
+  relation: string;
+  /** The subject, as `type:id` or `type:id#relation` */
+  subject: string;
+};
+
+/**
+ * Where relation tuples are read from. Implement it over a database to use
+ * existing relationship tables.
+ *
+ * @public
+ */
+export interface TupleStore {
+  /** Returns the subjects that have `relation` on `object` */
+  read(
+    object: string,
+    relation: string
+  ): readonly string[] | Promise<readonly string[]>;
+}
+
+/**
+ * A tuple store that keeps tuples in memory.
+ *
+ * @public
+ */
+export type MemoryTupleStore = TupleStore & {
+  /** Adds tuples, given as objects or `object#relation@subject` strings */
+  write(...tuples: (RelationTuple | string)[]): void;
+  /** Removes tuples, given as objects or `object#relation@subject` strings */
+  delete(...tuples: (RelationTuple | string)[]): void;
+  /** Every stored tuple */
+  tuples(): RelationTuple[];
+};
+
+/**
+ * How a relation is computed from stored tuples:
+ * - `"direct"` - subjects stored for the relation itself, following usersets
+ * - `{ computed: relation }` - subjects of another relation on the same object
+ * - `{ tupleToUserset: { tupleset, relation } }` - subjects of `relation` on every
+ *   object stored under `tupleset` (e.g. `viewer` of the document's `parent` folder)
+ * - `{ union: [...] }` - subjects of any of the rewrites
+ * - `{ intersection: [...] }` - subjects of all of the rewrites
+ *
+ * @public
+ */
+export type RelationRewrite =
+  | "direct"
+  | { computed: string }
+  | { tupleToUserset: { tupleset: string; relation: string } }
+  | { union: readonly RelationRewrite[] }
+  | { intersection: readonly RelationRewrite[] };
+
+/**
+ * Relation rewrites keyed by object type, then relation name. Relations
+ * without a rewrite are `"direct"`.
+ *
+ * @public
+ */
+export type RelationSchema = Record<string, Record<string, RelationRewrite>>;
+
+/**
+ * Options accepted by `createRelations()`.
+ *
+ * @public
+ */
+export type RelationsOptions = {
+  /** Where tuples are read from */
+  store: TupleStore;
+  /** How relations are computed, see `RelationSchema` */
+  schema?: RelationSchema;
+  /** How many relation hops a check may take before failing (defaults to 25) */
+  maxDepth?: number;
+  /**
+   * Turns an entity into an object reference. Defaults to strings as-is and
+   * `type:id` for objects with `type` and `id` properties.
+   */
+  objectOf?: (entity: any) => string;
+  /**
+   * Turns an actor into a subject reference. Defaults to strings as-is,
+   * `type:id` for objects with a `type` property and `user:id` otherwise.
+   */
+  subjectOf?: (actor: any) => string;
+};
+
+/**
+ * A relation graph created by `createRelations()`.
+ *
+ * @public
+ */
+export type Relations = {
+  /**
+   * Checks whether `subject` has `relation` on `object`, synchronously when
+   * the store is synchronous.
+   *
+   * @throws {RelationDepthError} When the check exceeds `maxDepth` hops
+   */
+  check(
+    object: string,
+    relation: string,
+    subject: string
+  ): boolean | Promise<boolean>;
+  /**
+   * Creates an action handler that allows the actor when it has `name` on the
+   * entity.
+   */
+  relation<A = any, E = any>(
+    name: string
+  ): (args: { actor: A; entity: E }) => boolean | Promise<boolean>;
+};
+
+/**
+ * Error thrown when a relation check takes more hops than `maxDepth` allows.
+ *
+ * @public
+ */
+export class RelationDepthError extends Error {
+  /** The object whose relation was being checked */
+  readonly object: string;
+  /** The relation being checked */
+  readonly relation: string;
+  /** The depth limit that was exceeded */
+  readonly maxDepth: number;
+
+  constructor(object: string, relation: string, maxDepth: number) {
+    super(
+      `Relation check exceeded the maximum depth of ${maxDepth} at ${object}#${relation}`
+    );
+    this.name = "RelationDepthError";
+    this.object = object;
+    this.relation = relation;
+    this.maxDepth = maxDepth;
+  }
+}
+
+/**
+ * Parses an `object#relation@subject` string.
+ *
+ * @throws {Error} When the string is not a valid tuple
+ *
+ * @example
+ * ```typescript
+ * parseTuple('document:readme#viewer@team:eng#member');
+ * // { object: 'document:readme', relation: 'viewer', subject: 'team:eng#member' }
+ * ```
+ *
+ * @public
+ */
+export function parseTuple(tuple: string): RelationTuple {
+  const match =
+    /^([^#@\s]+:[^#@\s]+)#([^#@\s]+)@([^#@\s]+:[^#@\s]+(?:#[^#@\s]+)?)$/.exec(
+      tuple
+    );
+  if (!match) throw new Error(`Invalid relation tuple: '${tuple}'`);
+  const [, object, relation, subject] = match;
+  return { object: object!, relation: relation!, subject: subject! };
+}
+
+/**
+ * Formats a tuple as an `object#relation@subject` string.
+ *
+ * @public
+ */
+export function formatTuple({
+  object,
+  relation,
+  subject,
+}: RelationTuple): string {
+  return `${object}#${relation}@${subject}`;
+}
+
+/**
+ * Creates a tuple store that keeps tuples in memory.
+ *
+ * @param tuples - Initial tuples, as objects or `object#relation@subject` strings
+ *
+ * @example
+ * ```typescript
+ * const store = createMemoryTupleStore([
+ *   'team:eng#member@user:alice',
+ *   'folder:docs#owner@team:eng#member',
+ *   'document:readme#parent@folder:docs'
+ * ]);
+ * ```
+ *
+ * @public
+ */
+export function createMemoryTupleStore(
+  tuples: (RelationTuple | string)[] = []
+): MemoryTupleStore {
+  // Subjects keyed by `object#relation`
+  const index = new Map<string, Set<string>>();
+  const normalize = (tuple: RelationTuple | string) =>
+    typeof tuple === "string" ? parseTuple(tuple) : tuple;
+
+  const store: MemoryTupleStore = {
+    read(object, relation) {
+      return [...(index.get(`${object}#${relation}`) ?? [])];
+    },
+    write(...tuples) {
+      for (const { object, relation, subject } of tuples.map(normalize)) {
+        const key = `${object}#${relation}`;
+        const subjects = index.get(key) ?? new Set();
+        subjects.add(subject);
+        index.set(key, subjects);
+      }
+    },
+    delete(...tuples) {
+      for (const { object, relation, subject } of tuples.map(normalize)) {
+        index.get(`${object}#${relation}`)?.delete(subject);
+      }
+    },
+    tuples() {
+      return [...index].flatMap(([key, subjects]) => {
+        const [object, relation] = splitUserset(key);
+        return [...subjects].map((subject) => ({
+          object,
+          relation: relation!,
+          subject,
+        }));
+      });
+    },
+  };
+
+  store.write(...tuples);
+  return store;
+}
+
+/**
+ * Creates a relation graph evaluated over a tuple store, with handlers for
+ * `createPermissionDefinition()`.
+ *
+ * Checks follow usersets and rewrites through the graph. A relation that is
+ * reached again while it is still being checked contributes nothing, so cyclic
+ * data terminates, and checks that take more than `maxDepth` hops throw a
+ * `RelationDepthError`.
+ *
+ * @example
+ * ```typescript
+ * const { relation } = createRelations({
+ *   store,
+ *   schema: {
+ *     folder: {
+ *       viewer: { union: ['direct', { computed: 'owner' }] }
+ *     },
+ *     document: {
+ *       owner: { tupleToUserset: { tupleset: 'parent', relation: 'owner' } },
+ *       viewer: {
+ *         union: ['direct', { tupleToUserset: { tupleset: 'parent', relation: 'viewer' } }]
+ *       }
+ *     }
+ *   }
+ * });
+ *
+ * const documentPermissions = createPermissionDefinition('document', {
+ *   read: relation<User, Document>('viewer'),
+ *   delete: relation<User, Document>('owner')
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createRelations(options: RelationsOptions): Relations {
+  const {
+    store,
+    schema = {},
+    maxDepth = 25,
+    objectOf = defaultObjectOf,
+    subjectOf = defaultSubjectOf,
+  } = options;
+
+  function check(
+    object: string,
+    relation: string,
+    subject: string,
+    depth: number,
+    visiting: ReadonlySet<string>
+  ): MaybePromise<boolean> {
+    const key = `${object}#${relation}`;
+    if (visiting.has(key)) return false;
+    if (depth > maxDepth)
+      throw new RelationDepthError(object, relation, maxDepth);
+
+    const path = new Set(visiting).add(key);
+    const next = (object: string, relation: string) =>
+      check(object, relation, subject, depth + 1, path);
+
+    const evaluate = (rewrite: RelationRewrite): MaybePromise<boolean> => {
+      if (rewrite === "direct") {
+        return chain(store.read(object, relation), (subjects) =>
+          some(subjects, (candidate) => {
+            if (candidate === subject) return true;
+            const [target, targetRelation] = splitUserset(candidate);
+            return targetRelation !== undefined && next(target, targetRelation);
+          })
+        );
+      }
+      if ("computed" in rewrite) return next(object, rewrite.computed);
+      if ("tupleToUserset" in rewrite) {
+        const { tupleset, relation } = rewrite.tupleToUserset;
+        return chain(store.read(object, tupleset), (subjects) =>
+          some(subjects, (candidate) =>
+            next(splitUserset(candidate)[0], relation)
+          )
+        );
+      }
+      if ("union" in rewrite) return some(rewrite.union, evaluate);
+      return (
+        rewrite.intersection.length > 0 && every(rewrite.intersection, evaluate)
+      );
+    };
+
+    return evaluate(schema[typeOf(object)]?.[relation] ?? "direct");
+  }
+
+  return {
+    check(object, relation, subject) {
+      return check(object, relation, subject, 0, new Set());
+    },
+    relation(name) {
+      return ({ actor, entity }) =>
+        check(objectOf(entity), name, subjectOf(actor), 0, new Set());
+    },
+  };
+}
+
+// Whether `fn` holds for any item, evaluating in order and stopping at the first match
+function some<T>(
+  items: readonly T[],
+  fn: (item: T) => MaybePromise<boolean>,
+  index = 0
+): MaybePromise<boolean> {
+  if (index >= items.length) return false;
+  return chain(fn(items[index]!), (matched) =>
+    matched ? true : some(items, fn, index + 1)
+  );
+}
+
+// Whether `fn` holds for every item, evaluating in order and stopping at the first miss
+function every<T>(
+  items: readonly T[],
+  fn: (item: T) => MaybePromise<boolean>,
+  index = 0
+): MaybePromise<boolean> {
+  if (index >= items.length) return true;
+  return chain(fn(items[index]!), (matched) =>
+    matched ? every(items, fn, index + 1) : false
+  );
+}
+
+// Split `type:id#relation` into the object and the relation, if any
+function splitUserset(reference: string): [string, string | undefined] {
+  const hash = reference.indexOf("#");
+  return hash === -1
+    ? [reference, undefined]
+    : [reference.slice(0, hash), reference.slice(hash + 1)];
+}
+
+function typeOf(object: string) {
+  return object.slice(0, object.indexOf(":"));
+}
+
+function defaultObjectOf(entity: any): string {
+  return typeof entity === "string"
+    ? entity
+    : `${entity?.type}:${idOf(entity)}`;
+}
+
+function defaultSubjectOf(actor: any): string {
+  if (typeof actor === "string") return actor;
+  return `${typeof actor?.type === "string" ? actor.type : "user"}:${idOf(
+    actor
+  )}`;
+}
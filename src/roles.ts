@@ -0,0 +1,132 @@
+import { allow, deny } from "./decision.js";
+import { matchesName } from "./utils.js";
+import type {
+  Middleware,
+  PermissionDefinition,
+  RoleMap,
+  Roles,
+  RolesOptions,
+} from "./index.js";
+
+/**
+ * Creates a role-based layer to combine with the attribute-based handlers.
+ * Pass it to `createPermissions()` through the `roles` option to have resource
+ * and action names checked against the registered definitions.
+ *
+ * @param roles - Role names mapped to the actions they grant per resource
+ * @param options - The role extractor and how grants combine with handlers
+ * @returns The roles, ready to be passed to `createPermissions()`
+ * @throws {Error} When a role inherits an unknown role or inheritance is cyclic
+ *
+ * @example
+ * ```typescript
+ * const permissions = createPermissions([postPermissions], {
+ *   roles: createRoles({
+ *     viewer: { post: ['read'] },
+ *     editor: { inherits: ['viewer'], post: ['edit'] },
+ *     admin: { post: ['*'] },
+ *     auditor: { '*': ['read'] }
+ *   })
+ * });
+ *
+ * // Admins may edit any post, everyone else still goes through the handler
+ * permissions.can('post', 'edit', { actor: admin, entity: post }); // true
+ * ```
+ *
+ * @public
+ */
+export function createRoles<
+  T extends readonly PermissionDefinition<any, any>[] = PermissionDefinition<
+    any,
+    any
+  >[]
+>(roles: RoleMap<T>, options: RolesOptions<T> = {}): Roles<T> {
+  const { rolesOf = defaultRolesOf, combine = "or", separator = ":" } = options;
+
+  // Every role with its inherited roles, and the actions granted per resource
+  const lineage = new Map<string, Set<string>>();
+  const grants = new Map<string, Map<string, Set<string>>>();
+
+  const expand = (role: string, path: string[]) => {
+    if (lineage.has(role)) return;
+    if (path.includes(role)) {
+      throw new Error(
+        `Role inheritance cycle: ${[...path, role].join(" -> ")}`
+      );
+    }
+    const definition = roles[role];
+    if (!definition) {
+      throw new Error(`Role '${path.at(-1)}' inherits unknown role '${role}'`);
+    }
+
+    const { inherits = [], ...resources } = definition;
+    const ancestors = new Set([role]);
+    const granted = new Map<string, Set<string>>();
+    for (const [resource, actions] of Object.entries(resources)) {
+      granted.set(resource, new Set(actions as readonly string[]));
+    }
+
+    for (const parent of inherits) {
+      expand(parent, [...path, role]);
+      for (const ancestor of lineage.get(parent)!) ancestors.add(ancestor);
+      for (const [resource, actions] of grants.get(parent)!) {
+        const merged = granted.get(resource) ?? new Set();
+        for (const action of actions) merged.add(action);
+        granted.set(resource, merged);
+      }
+    }
+
+    lineage.set(role, ancestors);
+    grants.set(role, granted);
+  };
+
+  for (const role of Object.keys(roles)) expand(role, []);
+
+  const assigned = (actor: any) => {
+    const names = rolesOf(actor) ?? [];
+    return typeof names === "string" ? [names] : names;
+  };
+
+  const matches = (pattern: string, name: string) =>
+    matchesName(pattern, name, separator);
+
+  // The first of the actor's roles that grants the action, if any
+  const grantingRole = (actor: any, resource: string, action: string) =>
+    assigned(actor).find((role) =>
+      [...(grants.get(role) ?? [])].some(
+        ([pattern, actions]) =>
+          matches(pattern, resource) &&
+          [...actions].some((granted) => matches(granted, action))
+      )
+    );
+
+  const middleware: Middleware = ({ resource, action, ctx, next }) => {
+    const role = grantingRole(ctx.actor, resource, action);
+    if (combine === "or") {
+      return role ? allow(`Granted by role '${role}'`) : next();
+    }
+    return role
+      ? next()
+      : deny(`No role grants ${action} on ${resource}`, "ROLE_REQUIRED");
+  };
+
+  return {
+    combine,
+    rolesOf(actor) {
+      const result = new Set<string>();
+      for (const role of assigned(actor)) {
+        for (const ancestor of lineage.get(role) ?? []) result.add(ancestor);
+      }
+      return [...result];
+    },
+    grants(actor, resource, action) {
+      return grantingRole(actor, resource, action) !== undefined;
+    },
+    middleware,
+  };
+}
+
+function defaultRolesOf(actor: any): string | readonly string[] | undefined {
+  if (Array.isArray(actor?.roles)) return actor.roles;
+  return typeof actor?.role === "string" ? actor.role : undefined;
+}
@@ -0,0 +1,261 @@
+import { UnknownActionError, UnknownResourceError } from "./errors.js";
+import { idOf, mapConcurrent } from "./utils.js";
+import type { Permissions } from "./index.js";
+
+/**
+ * The actors, entities and attributes a simulation checks every action with.
+ * Entities and attributes may be given per resource, since the entities of one
+ * resource rarely fit the handlers of another.
+ *
+ * @public
+ */
+export type SimulationFixtures = {
+  /** Actors to check every action for */
+  actors: readonly unknown[];
+  /** Entities to check, for every resource or per resource (defaults to none) */
+  entities?: readonly unknown[] | Record<string, readonly unknown[]>;
+  /** Attributes to check, for every resource or per resource (defaults to none) */
+  attributes?: readonly unknown[] | Record<string, readonly unknown[]>;
+};
+
+/**
+ * Options accepted by `simulate()`.
+ *
+ * @public
+ */
+export type SimulationOptions = {
+  /** Maximum number of checks evaluated at the same time (defaults to unlimited) */
+  concurrency?: number;
+  /** Renders an actor, entity or attributes in the table (defaults to its `id`, or its JSON) */
+  label?: (value: unknown) => string;
+};
+
+/**
+ * The outcome of one check in a simulation. `missing` means the resource or
+ * action does not exist in that instance, and `error` that the check threw.
+ *
+ * @public
+ */
+export type SimulatedOutcome = "allowed" | "denied" | "error" | "missing";
+
+/**
+ * A check whose outcome differs between the two instances of a simulation.
+ *
+ * @public
+ */
+export type SimulationChange = {
+  actor: unknown;
+  entity: unknown;
+  attributes: unknown;
+  /** The outcome with the old permissions */
+  before: SimulatedOutcome;
+  /** The outcome with the new permissions */
+  after: SimulatedOutcome;
+};
+
+/**
+ * The changed checks of one resource and action.
+ *
+ * @public
+ */
+export type SimulationGroup = {
+  resource: string;
+  action: string;
+  /** How many checks ran for this resource and action */
+  checked: number;
+  changes: SimulationChange[];
+};
+
+/**
+ * The result of `simulate()`: the checks that changed, grouped by resource and
+ * action. Groups without changes are left out.
+ *
+ * @public
+ */
+export type SimulationReport = {
+  /** How many checks ran in each instance */
+  checked: number;
+  /** How many checks changed */
+  changed: number;
+  groups: SimulationGroup[];
+  /** Renders the changes as a human-readable table */
+  toTable(): string;
+  /** The report as plain data, used by `JSON.stringify()` */
+  toJSON(): Omit<SimulationReport, "toTable" | "toJSON">;
+};
+
+/**
+ * Runs every resource and action of two permissions instances against the
+ * same fixtures and reports the decisions that differ. Use it before changing
+ * handlers to see whose access changes. Checks go through `explain()` on a
+ * `dryRun()` view of each instance, so middleware and rules take part, but
+ * nothing is recorded in audit logs or decision caches.
+ *
+ * @param before - The permissions as they are
+ * @param after - The permissions with the change applied
+ * @param fixtures - The actors, entities and attributes to check
+ * @param options - Concurrency and table labels
+ * @returns A Promise of the report
+ *
+ * @example
+ * ```typescript
+ * const report = await simulate(current, proposed, {
+ *   actors: [admin, author, guest],
+ *   entities: { post: [draft, published], comment: [comment] }
+ * });
+ * console.log(report.toTable());
+ * await Bun.write('simulation.json', JSON.stringify(report, null, 2));
+ * ```
+ *
+ * @public
+ */
+export async function simulate(
+  before: Permissions<any, any>,
+  after: Permissions<any, any>,
+  fixtures: SimulationFixtures,
+  options: SimulationOptions = {}
+): Promise<SimulationReport> {
+  const { concurrency = Infinity, label = defaultLabel } = options;
+  const [current, proposed] = [before.dryRun(), after.dryRun()];
+
+  const checks = actionsOf(before, after).flatMap(([resource, action]) =>
+    combinations(fixtures, resource).map((ctx) => ({ resource, action, ctx }))
+  );
+
+  const outcomes = await mapConcurrent(
+    checks,
+    concurrency,
+    async ({ resource, action, ctx }) =>
+      [
+        await outcomeOf(current, resource, action, ctx),
+        await outcomeOf(proposed, resource, action, ctx),
+      ] as const
+  );
+
+  const groups = new Map<string, SimulationGroup>();
+  checks.forEach(({ resource, action, ctx }, index) => {
+    const key = `${resource}\0${action}`;
+    const group = groups.get(key) ?? {
+      resource,
+      action,
+      checked: 0,
+      changes: [],
+    };
+    groups.set(key, group);
+    group.checked++;
+
+    const [was, is] = outcomes[index]!;
+    if (was !== is) group.changes.push({ ...ctx, before: was, after: is });
+  });
+
+  const data = {
+    checked: checks.length,
+    changed: 0,
+    groups: [...groups.values()].filter((group) => group.changes.length > 0),
+  };
+  data.changed = data.groups.reduce((n, group) => n + group.changes.length, 0);
+
+  return {
+    ...data,
+    toTable: () => formatTable(data, label),
+    toJSON: () => data,
+  };
+}
+
+// Every resource and action of either instance, in the order they were added
+function actionsOf(...instances: Permissions<any, any>[]) {
+  const seen = new Map<string, [string, string]>();
+  for (const instance of instances) {
+    for (const resource of instance.resources()) {
+      for (const action of instance.actions(resource)) {
+        seen.set(`${resource}\0${action}`, [resource, action]);
+      }
+    }
+  }
+  return [...seen.values()];
+}
+
+// Every combination of the fixtures that apply to a resource
+function combinations(fixtures: SimulationFixtures, resource: string) {
+  const entities = fixturesFor(fixtures.entities, resource);
+  const attributes = fixturesFor(fixtures.attributes, resource);
+  return fixtures.actors.flatMap((actor) =>
+    entities.flatMap((entity) =>
+      attributes.map((attributes) => ({ actor, entity, attributes }))
+    )
+  );
+}
+
+function fixturesFor(
+  fixtures: SimulationFixtures["entities"],
+  resource: string
+): readonly unknown[] {
+  const list = Array.isArray(fixtures)
+    ? fixtures
+    : (fixtures as Record<string, readonly unknown[]> | undefined)?.[resource];
+  return list && list.length > 0 ? list : [undefined];
+}
+
+async function outcomeOf(
+  permissions: Permissions<any, any>,
+  resource: string,
+  action: string,
+  ctx: unknown
+): Promise<SimulatedOutcome> {
+  try {
+    const decision = await permissions.explain(resource, action, ctx as any);
+    return decision.allowed ? "allowed" : "denied";
+  } catch (error) {
+    return error instanceof UnknownResourceError ||
+      error instanceof UnknownActionError
+      ? "missing"
+      : "error";
+  }
+}
+
+function formatTable(
+  report: Pick<SimulationReport, "checked" | "changed" | "groups">,
+  label: (value: unknown) => string
+) {
+  if (report.changed === 0) {
+    return `No decisions changed (${report.checked} checked)`;
+  }
+
+  const sections = report.groups.map(
+    ({ resource, action, checked, changes }) => {
+      const rows = [
+        ["actor", "entity", "attributes", "before", "after"],
+        ...changes.map((change) => [
+          label(change.actor),
+          label(change.entity),
+          label(change.attributes),
+          change.before,
+          change.after,
+        ]),
+      ];
+      const widths = rows[0]!.map((_, column) =>
+        Math.max(...rows.map((row) => row[column]!.length))
+      );
+      const lines = rows.map((row) =>
+        row
+          .map((cell, column) => cell.padEnd(widths[column]!))
+          .join("  ")
+          .trimEnd()
+      );
+      return [
+        `${resource} ${action} (${changes.length} of ${checked} changed)`,
+        ...lines.map((line) => `  ${line}`),
+      ].join("\n");
+    }
+  );
+
+  return [
+    ...sections,
+    `${report.changed} of ${report.checked} decisions changed`,
+  ].join("\n\n");
+}
+
+function defaultLabel(value: unknown) {
+  if (value === undefined) return "-";
+  return idOf(value) ?? JSON.stringify(value) ?? String(value);
+}
@@ -0,0 +1,116 @@
+// Internal helpers shared across modules; not part of the public API.
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export function isPromiseLike<T = unknown>(
+  value: unknown
+): value is PromiseLike<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
+// Apply `fn` to a value that may or may not be a promise, staying synchronous
+// for synchronous values so sync handlers keep returning plain results.
+export function chain<T, U>(
+  value: MaybePromise<T>,
+  fn: (value: T) => MaybePromise<U>
+): MaybePromise<U> {
+  return isPromiseLike<T>(value)
+    ? Promise.resolve(value).then(fn)
+    : fn(value as T);
+}
+
+// Map over items with at most `limit` calls of `fn` in flight at once,
+// preserving the input order in the results.
+export async function mapConcurrent<T, U>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => MaybePromise<U>
+): Promise<U[]> {
+  if (!(limit >= 1)) {
+    throw new RangeError(`Concurrency must be at least 1, received ${limit}`);
+  }
+
+  const results = new Array<U>(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+// Read an `id` property usable as an identifier, if there is one
+export function idOf(value: any): string | undefined {
+  const id = value?.id;
+  return typeof id === "string" || typeof id === "number"
+    ? String(id)
+    : undefined;
+}
+
+// Whether a resource or action name matches a pattern: `*` matches every name,
+// and a trailing `<separator>*` matches every name nested below the prefix.
+export function matchesName(pattern: string, name: string, separator = ":") {
+  if (pattern === "*" || pattern === name) return true;
+  return (
+    pattern.endsWith(`${separator}*`) && name.startsWith(pattern.slice(0, -1))
+  );
+}
+
+// The members of AbortController and AbortSignal used here. The bundled type
+// definitions only declare them alongside the DOM lib, so they are typed
+// structurally instead.
+type ControllerLike = { signal: AbortSignal; abort(reason?: unknown): void };
+type SignalLike = {
+  readonly aborted: boolean;
+  readonly reason: unknown;
+  addEventListener(type: "abort", listener: () => void): void;
+  removeEventListener(type: "abort", listener: () => void): void;
+};
+
+// A signal that aborts with `reason()` after `ms` milliseconds, or when
+// `parent` aborts. Call `clear()` once the guarded work has settled.
+export function timeoutSignal(
+  ms: number | undefined,
+  reason: () => unknown,
+  parent?: AbortSignal
+): { signal: AbortSignal | undefined; clear: () => void } {
+  if (ms === undefined) return { signal: parent, clear: () => {} };
+
+  const controller = new AbortController() as unknown as ControllerLike;
+  const timer = setTimeout(() => controller.abort(reason()), ms);
+  return {
+    signal: parent
+      ? AbortSignal.any([parent, controller.signal])
+      : controller.signal,
+    clear: () => clearTimeout(timer),
+  };
+}
+
+// Settle like `promise`, unless `signal` aborts first: then reject with the
+// abort reason.
+export function abortable<T>(
+  promise: PromiseLike<T>,
+  signal: AbortSignal
+): Promise<T> {
+  const target = signal as unknown as SignalLike;
+  if (target.aborted) return Promise.reject(target.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(target.reason);
+    target.addEventListener("abort", onAbort);
+    Promise.resolve(promise)
+      .then(resolve, reject)
+      .finally(() => target.removeEventListener("abort", onAbort));
+  });
+}
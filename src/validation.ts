@@ -0,0 +1,145 @@
+/**
+ * Checks and parses a value at runtime, throwing when it is invalid. Schemas
+ * with a `parse` method (e.g. zod) fit as they are; anything else can be
+ * wrapped in a function.
+ *
+ * @template T - The type of a valid value
+ *
+ * @example
+ * ```typescript
+ * const actor: Validator<User> = UserSchema; // zod
+ * const entity: Validator<Post> = (value) => v.parse(PostSchema, value); // valibot
+ * ```
+ *
+ * @public
+ */
+export type Validator<T = unknown> =
+  | { parse(value: unknown): T }
+  | ((value: unknown) => T);
+
+/**
+ * Validators for the arguments of a check. Each one runs on every check of the
+ * actions it applies to, so an entity validator makes the entity required
+ * unless it accepts `undefined`.
+ *
+ * @public
+ */
+export type ArgsValidators = {
+  actor?: Validator;
+  entity?: Validator;
+  attributes?: Validator;
+};
+
+/**
+ * Validators for a definition's checks, passed as `{ validate }` to
+ * `createPermissionDefinition()`: some for every action, and some per action
+ * under `actions`, which take precedence.
+ *
+ * @template A - The action names of the definition
+ *
+ * @public
+ */
+export type Validation<A extends string = string> = ArgsValidators & {
+  actions?: { [K in A]?: ArgsValidators };
+};
+
+/**
+ * The type of a value accepted by a `Validator`.
+ *
+ * @public
+ */
+export type ValidatedType<V> = V extends { parse(value: unknown): infer T }
+  ? T
+  : V extends (value: unknown) => infer T
+  ? T
+  : never;
+
+// The validators that apply to one action
+type ValidatorsFor<V, K> = Omit<V, "actions"> &
+  (V extends { actions: infer M } ? (K extends keyof M ? M[K] : {}) : {});
+
+// The type of one argument: validated, or left as it was
+type ArgumentOf<F, P extends keyof ArgsValidators> = P extends keyof F
+  ? undefined extends ValidatedType<F[P]>
+    ? { [Q in P]?: ValidatedType<F[P]> }
+    : { [Q in P]: ValidatedType<F[P]> }
+  : { [Q in P]?: any };
+
+/**
+ * The arguments an action's handler receives once validated. Arguments without
+ * a validator keep an `any` type.
+ *
+ * @public
+ */
+export type ValidatedArgs<V, K> = {
+  actor: "actor" extends keyof ValidatorsFor<V, K>
+    ? ValidatedType<ValidatorsFor<V, K>["actor"]>
+    : any;
+} & ArgumentOf<ValidatorsFor<V, K>, "entity"> &
+  ArgumentOf<ValidatorsFor<V, K>, "attributes"> & { signal?: AbortSignal };
+
+/**
+ * Thrown when the actor, entity or attributes of a check fail validation. The
+ * instance's or definition's `errorPolicy` decides whether the check throws it.
+ *
+ * @public
+ */
+export class ArgsValidationError extends Error {
+  /** The resource that was checked */
+  readonly resource: string;
+  /** The action that was checked */
+  readonly action: string;
+  /** The argument that failed validation */
+  readonly argument: keyof ArgsValidators;
+
+  constructor(
+    resource: string,
+    action: string,
+    argument: keyof ArgsValidators,
+    cause: unknown
+  ) {
+    super(
+      `Invalid ${argument} for action '${action}' on resource '${resource}'` +
+        (cause instanceof Error ? `: ${cause.message}` : ""),
+      { cause }
+    );
+    this.name = "ArgsValidationError";
+    this.resource = resource;
+    this.action = action;
+    this.argument = argument;
+  }
+}
+
+const ARGUMENTS = ["actor", "entity", "attributes"] as const;
+
+// Validate the arguments of a check and return them as parsed. Arguments are
+// returned untouched when the action has no validators.
+export function validateArgs(
+  validation: Validation | undefined,
+  resource: string,
+  action: string,
+  ctx: any
+) {
+  if (!validation) return ctx;
+  const validators: ArgsValidators = {
+    ...validation,
+    ...validation.actions?.[action],
+  };
+
+  let parsed = ctx;
+  for (const argument of ARGUMENTS) {
+    const validator = validators[argument];
+    if (!validator) continue;
+
+    try {
+      const value =
+        typeof validator === "function"
+          ? validator(ctx?.[argument])
+          : validator.parse(ctx?.[argument]);
+      parsed = { ...parsed, [argument]: value };
+    } catch (error) {
+      throw new ArgsValidationError(resource, action, argument, error);
+    }
+  }
+  return parsed;
+}
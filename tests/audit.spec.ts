@@ -0,0 +1,170 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryAuditSink,
+  createNdjsonAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+} from "../src/index";
+
+type User = { id: string; email: string; role: "admin" | "user" };
+type Post = { id: string; authorId: string };
+
+describe("Audit log", () => {
+  const admin: User = { id: "1", email: "admin@example.com", role: "admin" };
+  const user: User = { id: "2", email: "user@example.com", role: "user" };
+  const post: Post = { id: "post1", authorId: "2" };
+
+  const postDef = createPermissionDefinition("post", {
+    create: ({ actor }: { actor: User; entity?: Post }) =>
+      actor.role === "admin" ? true : deny("admins only", "NOT_ADMIN"),
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.id === entity.authorId,
+    publish: async ({ actor }: { actor: User; entity: Post }) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      throw new Error("publishing service unavailable");
+    },
+  });
+
+  it("should record every invocation path", async () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], { audit: { sink } });
+
+    permissions.can("post", "create", { actor: user, entity: post });
+    permissions.can("post", { actor: admin, entity: post }).edit();
+    await permissions.get("post").can(user).edit(post);
+
+    expect(
+      sink.events.map(({ resource, action, actorId, entityId, allowed }) => ({
+        resource,
+        action,
+        actorId,
+        entityId,
+        allowed,
+      }))
+    ).toEqual([
+      {
+        resource: "post",
+        action: "create",
+        actorId: "2",
+        entityId: "post1",
+        allowed: false,
+      },
+      {
+        resource: "post",
+        action: "edit",
+        actorId: "1",
+        entityId: "post1",
+        allowed: false,
+      },
+      {
+        resource: "post",
+        action: "edit",
+        actorId: "2",
+        entityId: "post1",
+        allowed: true,
+      },
+    ]);
+  });
+
+  it("should include timing, reasons and codes", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], { audit: { sink } });
+
+    permissions.can("post", "create", { actor: user, entity: post });
+
+    const [event] = sink.events;
+    expect(event).toMatchObject({
+      allowed: false,
+      reason: "admins only",
+      code: "NOT_ADMIN",
+    });
+    expect(typeof event!.durationMs).toBe("number");
+    expect(new Date(event!.timestamp).toISOString()).toBe(event!.timestamp);
+  });
+
+  it("should record thrown errors and rethrow them", async () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], { audit: { sink } });
+
+    let error: unknown;
+    try {
+      await permissions.can("post", "publish", { actor: admin, entity: post });
+    } catch (e) {
+      error = e;
+    }
+
+    expect((error as Error).message).toBe("publishing service unavailable");
+    expect(sink.events[0]).toMatchObject({
+      action: "publish",
+      allowed: false,
+      error: { name: "Error", message: "publishing service unavailable" },
+    });
+  });
+
+  it("should use custom identifier extractors", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], {
+      audit: {
+        sink,
+        actorId: (actor: User) => actor.email,
+        entityId: (entity: Post) => `post:${entity.id}`,
+      },
+    });
+
+    permissions.can("post", "edit", { actor: user, entity: post });
+
+    expect(sink.events[0]).toMatchObject({
+      actorId: "user@example.com",
+      entityId: "post:post1",
+    });
+  });
+
+  it("should not let sink failures affect permission checks", async () => {
+    const failures: unknown[] = [];
+    const permissions = createPermissions([postDef], {
+      audit: {
+        sink: {
+          write: () => {
+            throw new Error("disk full");
+          },
+        },
+        onError: (error) => failures.push(error),
+      },
+    });
+
+    expect(permissions.can("post", "edit", { actor: user, entity: post })).toBe(
+      true
+    );
+    expect((failures[0] as Error).message).toBe("disk full");
+  });
+
+  it("should write newline-delimited JSON", () => {
+    const lines: string[] = [];
+    const permissions = createPermissions([postDef], {
+      audit: { sink: createNdjsonAuditSink((line) => lines.push(line)) },
+    });
+
+    permissions.can("post", "edit", { actor: user, entity: post });
+    permissions.can("post", "edit", { actor: admin, entity: post });
+
+    expect(lines).toHaveLength(2);
+    expect(lines.every((line) => line.endsWith("\n"))).toBe(true);
+    expect(JSON.parse(lines[1]!)).toMatchObject({
+      resource: "post",
+      action: "edit",
+      actorId: "1",
+      allowed: false,
+    });
+  });
+
+  it("should clear the memory sink", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], { audit: { sink } });
+
+    permissions.can("post", "edit", { actor: user, entity: post });
+    sink.clear();
+
+    expect(sink.events).toEqual([]);
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, setSystemTime } from "bun:test";
+import { createPermissionDefinition, createPermissions } from "../src/index";
+import { createDecisionCache } from "../src/cache";
+
+type User = { id: string; role: "admin" | "user" };
+type Document = { id: string; ownerId: string };
+
+describe("Decision cache", () => {
+  const alice: User = { id: "alice", role: "user" };
+  const bob: User = { id: "bob", role: "user" };
+  const doc: Document = { id: "doc1", ownerId: "alice" };
+  const otherDoc: Document = { id: "doc2", ownerId: "bob" };
+
+  function setup(options?: Parameters<typeof createPermissions>[1]) {
+    const calls = { read: 0, share: 0 };
+    const documentDef = createPermissionDefinition("document", {
+      read: async ({ actor, entity }: { actor: User; entity: Document }) => {
+        calls.read++;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return actor.id === entity.ownerId;
+      },
+      share: ({
+        actor,
+        entity,
+        attributes,
+      }: {
+        actor: User;
+        entity: Document;
+        attributes?: { with: string };
+      }) => {
+        calls.share++;
+        return actor.id === entity.ownerId && attributes?.with !== actor.id;
+      },
+    });
+    return {
+      calls,
+      permissions: createPermissions([documentDef], options),
+    };
+  }
+
+  it("should not cache anything by default", async () => {
+    const { calls, permissions } = setup();
+
+    await permissions.can("document", "read", { actor: alice, entity: doc });
+    await permissions.can("document", "read", { actor: alice, entity: doc });
+
+    expect(calls.read).toBe(2);
+  });
+
+  describe("scope()", () => {
+    it("should memoize decisions within a scope", async () => {
+      const { calls, permissions } = setup();
+      const scoped = permissions.scope();
+
+      expect(
+        await scoped.can("document", "read", { actor: alice, entity: doc })
+      ).toBe(true);
+      expect(await scoped.get("document").can(alice).read(doc)).toBe(true);
+      expect(calls.read).toBe(1);
+
+      await scoped.can("document", "read", { actor: bob, entity: doc });
+      await scoped.can("document", "read", { actor: alice, entity: otherDoc });
+      expect(calls.read).toBe(3);
+    });
+
+    it("should keep separate memos per scope", async () => {
+      const { calls, permissions } = setup();
+
+      await permissions
+        .scope()
+        .can("document", "read", { actor: alice, entity: doc });
+      await permissions
+        .scope()
+        .can("document", "read", { actor: alice, entity: doc });
+
+      expect(calls.read).toBe(2);
+    });
+
+    it("should key decisions by attributes", () => {
+      const { calls, permissions } = setup();
+      const scoped = permissions.scope();
+
+      scoped.can("document", "share", {
+        actor: alice,
+        entity: doc,
+        attributes: { with: "bob" },
+      });
+      scoped.can("document", "share", {
+        actor: alice,
+        entity: doc,
+        attributes: { with: "bob" },
+      });
+      scoped.can("document", "share", {
+        actor: alice,
+        entity: doc,
+        attributes: { with: "carol" },
+      });
+
+      expect(calls.share).toBe(2);
+    });
+
+    it("should share a single in-flight promise for identical checks", async () => {
+      const { calls, permissions } = setup();
+      const scoped = permissions.scope();
+
+      const results = await Promise.all([
+        scoped.can("document", "read", { actor: alice, entity: doc }),
+        scoped.can("document", "read", { actor: alice, entity: doc }),
+        scoped.explain("document", "read", { actor: alice, entity: doc }),
+      ]);
+
+      expect(calls.read).toBe(1);
+      expect(results[0]).toBe(true);
+      expect(results[2]).toMatchObject({ allowed: true });
+    });
+
+    it("should skip caching when no key can be derived", () => {
+      const { calls, permissions } = setup();
+      const scoped = permissions.scope();
+      const anonymous = { role: "user" } as User;
+
+      scoped.can("document", "share", { actor: anonymous, entity: doc });
+      scoped.can("document", "share", { actor: anonymous, entity: doc });
+
+      expect(calls.share).toBe(2);
+    });
+  });
+
+  describe("TTL cache", () => {
+    it("should cache decisions across calls until they expire", async () => {
+      const { calls, permissions } = setup({ cache: { ttl: 20 } });
+
+      await permissions.can("document", "read", { actor: alice, entity: doc });
+      await permissions.can("document", "read", { actor: alice, entity: doc });
+      expect(calls.read).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      await permissions.can("document", "read", { actor: alice, entity: doc });
+      expect(calls.read).toBe(2);
+    });
+
+    it("should be shared with scopes", async () => {
+      const { calls, permissions } = setup({ cache: { ttl: 1000 } });
+
+      await permissions
+        .scope()
+        .can("document", "read", { actor: alice, entity: doc });
+      await permissions.can("document", "read", { actor: alice, entity: doc });
+
+      expect(calls.read).toBe(1);
+    });
+
+    it("should use custom key functions", () => {
+      const { calls, permissions } = setup({
+        cache: { ttl: 1000, entityKey: (entity: Document) => entity.ownerId },
+      });
+
+      permissions.can("document", "share", { actor: alice, entity: doc });
+      permissions.can("document", "share", {
+        actor: alice,
+        entity: { ...doc, id: "copy" },
+      });
+
+      expect(calls.share).toBe(1);
+    });
+
+    it("should forget rejected checks", async () => {
+      let calls = 0;
+      const permissions = createPermissions(
+        [
+          createPermissionDefinition("flaky", {
+            run: async ({ actor }: { actor: User }) => {
+              calls++;
+              if (calls === 1) throw new Error("unavailable");
+              return true;
+            },
+          }),
+        ],
+        { cache: { ttl: 1000 } }
+      );
+
+      let error: unknown;
+      try {
+        await permissions.can("flaky", "run", { actor: alice });
+      } catch (e) {
+        error = e;
+      }
+
+      expect((error as Error).message).toBe("unavailable");
+      expect(await permissions.can("flaky", "run", { actor: alice })).toBe(
+        true
+      );
+      expect(calls).toBe(2);
+    });
+
+    it("should release expired decisions", () => {
+      try {
+        setSystemTime(new Date("2026-01-01T00:00:00Z"));
+        const cache = createDecisionCache({}, 1000);
+        const keysOf = (entity: Document) =>
+          cache.keysFor("document", "read", { actor: alice, entity })!;
+
+        cache.remember(keysOf(doc), () => true);
+        cache.remember(keysOf(otherDoc), () => false);
+        expect(cache.size).toBe(2);
+
+        setSystemTime(new Date("2026-01-01T00:00:02Z"));
+        expect(cache.remember(keysOf(doc), () => false)).toBe(false);
+        expect(cache.size).toBe(1);
+      } finally {
+        setSystemTime();
+      }
+    });
+
+    it("should evict the least recently used decisions beyond maxEntries", () => {
+      const { calls, permissions } = setup({
+        cache: { ttl: 1000, maxEntries: 2 },
+      });
+      const share = (entity: Document) =>
+        permissions.can("document", "share", { actor: alice, entity });
+      const third: Document = { id: "doc3", ownerId: "alice" };
+
+      share(doc);
+      share(otherDoc);
+      share(doc);
+      share(third);
+      expect(calls.share).toBe(3);
+
+      share(doc);
+      expect(calls.share).toBe(3);
+      share(otherDoc);
+      expect(calls.share).toBe(4);
+    });
+  });
+
+  describe("invalidate()", () => {
+    it("should drop decisions by actor, entity or resource", async () => {
+      const { calls, permissions } = setup({ cache: { ttl: 1000 } });
+      const check = (actor: User, entity: Document) =>
+        permissions.can("document", "read", { actor, entity });
+
+      await check(alice, doc);
+      await check(bob, doc);
+      await check(alice, otherDoc);
+      expect(calls.read).toBe(3);
+
+      permissions.invalidate({ actor: alice });
+      await check(alice, doc);
+      await check(bob, doc);
+      await check(alice, otherDoc);
+      expect(calls.read).toBe(5);
+
+      permissions.invalidate({ entity: doc });
+      await check(alice, doc);
+      await check(alice, otherDoc);
+      expect(calls.read).toBe(6);
+
+      permissions.invalidate({ resource: "document" });
+      await check(alice, otherDoc);
+      expect(calls.read).toBe(7);
+    });
+
+    it("should clear a scope's memo", async () => {
+      const { calls, permissions } = setup();
+      const scoped = permissions.scope();
+
+      await scoped.can("document", "read", { actor: alice, entity: doc });
+      scoped.invalidate();
+      await scoped.can("document", "read", { actor: alice, entity: doc });
+
+      expect(calls.read).toBe(2);
+    });
+  });
+});
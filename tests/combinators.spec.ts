@@ -0,0 +1,184 @@
+import { describe, it, expect } from "bun:test";
+import {
+  allOf,
+  allow,
+  anyOf,
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+  firstMatch,
+  not,
+  notApplicable,
+  when,
+  type CreateActionRule,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "user"; banned?: boolean };
+type Post = { id: string; authorId: string; published: boolean };
+
+describe("Handler combinators", () => {
+  const admin: User = { id: "1", role: "admin" };
+  const author: User = { id: "2", role: "user" };
+  const banned: User = { id: "2", role: "user", banned: true };
+  const other: User = { id: "3", role: "user" };
+  const post: Post = { id: "post1", authorId: "2", published: false };
+
+  const isAdmin = ({ actor }: { actor: User }) => actor.role === "admin";
+  const isBanned = ({ actor }: { actor: User }) => actor.banned === true;
+  const isAuthor = ({ actor, entity }: { actor: User; entity: Post }) =>
+    actor.id === entity.authorId ? allow("author") : deny("not the author");
+  const isAuthorAsync = async (args: { actor: User; entity: Post }) =>
+    isAuthor(args);
+
+  it("should require every handler with allOf()", () => {
+    const canEdit = allOf(not(isBanned), isAuthor);
+
+    expect(canEdit({ actor: author, entity: post })).toEqual(allow("author"));
+    expect(canEdit({ actor: banned, entity: post })).toBe(false);
+    expect(canEdit({ actor: other, entity: post })).toEqual(
+      deny("not the author")
+    );
+    expect(allOf()({ actor: other })).toBe(false);
+  });
+
+  it("should accept any handler with anyOf()", () => {
+    const canEdit = anyOf(isAdmin, isAuthor);
+
+    expect(canEdit({ actor: admin, entity: post })).toBe(true);
+    expect(canEdit({ actor: author, entity: post })).toEqual(allow("author"));
+    expect(canEdit({ actor: other, entity: post })).toEqual(
+      deny("not the author")
+    );
+    expect(anyOf()({ actor: other })).toBe(false);
+  });
+
+  it("should guard a handler with when()", () => {
+    const canDelete = when(
+      ({ entity }: { actor: User; entity: Post }) => !entity.published,
+      isAuthor
+    );
+
+    expect(canDelete({ actor: author, entity: post })).toEqual(allow("author"));
+    expect(
+      canDelete({ actor: author, entity: { ...post, published: true } })
+    ).toBe(false);
+  });
+
+  it("should keep not applicable results with not()", () => {
+    const review = not(({ entity }: { actor: User; entity: Post }) =>
+      entity.published ? notApplicable("only drafts are reviewed") : false
+    );
+
+    expect(review({ actor: other, entity: post })).toBe(true);
+    expect(
+      review({ actor: other, entity: { ...post, published: true } })
+    ).toEqual(notApplicable("only drafts are reviewed"));
+  });
+
+  it("should pick the first matching case with firstMatch()", () => {
+    const calls: string[] = [];
+    const canRead = firstMatch(
+      [isAdmin, () => allow("admin")],
+      [
+        ({ entity }: { actor: User; entity: Post }) => entity.published,
+        () => true,
+      ],
+      [
+        () => true,
+        (args: { actor: User; entity: Post }) => {
+          calls.push("author check");
+          return isAuthor(args);
+        },
+      ]
+    );
+
+    expect(canRead({ actor: admin, entity: post })).toEqual(allow("admin"));
+    expect(
+      canRead({ actor: other, entity: { ...post, published: true } })
+    ).toBe(true);
+    expect(calls).toEqual([]);
+    expect(canRead({ actor: other, entity: post })).toEqual(
+      deny("not the author")
+    );
+    expect(firstMatch()({ actor: other })).toBe(false);
+  });
+
+  it("should stay synchronous when every handler is synchronous", () => {
+    const result = anyOf(
+      isAdmin,
+      allOf(isAuthor, not(isBanned))
+    )({
+      actor: author,
+      entity: post,
+    });
+
+    expect(result).not.toBeInstanceOf(Promise);
+  });
+
+  it("should short-circuit asynchronous handlers", async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string, result: boolean) =>
+      async ({ actor }: { actor: User }) => {
+        calls.push(name);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return result;
+      };
+
+    expect(
+      await anyOf(
+        track("a", false),
+        track("b", true),
+        track("c", true)
+      )({
+        actor: other,
+      })
+    ).toBe(true);
+    expect(
+      await allOf(
+        track("d", true),
+        track("e", false),
+        track("f", true)
+      )({
+        actor: other,
+      })
+    ).toBe(false);
+    expect(await not(track("g", false))({ actor: other })).toBe(true);
+    expect(calls).toEqual(["a", "b", "d", "e", "g"]);
+
+    // An async handler that is never reached keeps the result synchronous
+    const result = anyOf(
+      isAdmin,
+      isAuthorAsync
+    )({
+      actor: admin,
+      entity: post,
+    });
+    expect(result).toBe(true);
+  });
+
+  it("should preserve the argument requirements of the handlers", async () => {
+    const rule: CreateActionRule<User, Post> = allOf(isAdmin, isAuthor);
+    const postDef = createPermissionDefinition("post", {
+      create: anyOf(isAdmin, not(isBanned)),
+      edit: allOf(not(isBanned), anyOf(isAdmin, isAuthorAsync)),
+      review: rule,
+      publish: when(
+        (args: { actor: User; attributes: { confirmed: boolean } }) =>
+          args.attributes.confirmed,
+        isAuthor
+      ),
+    });
+    const permissions = createPermissions([postDef]);
+    const can = permissions.get("post").can(author);
+
+    expect(can.create().check()).toBe(true);
+    expect(await can.edit(post)).toBe(true);
+    expect(await can.publish(post, { confirmed: true })).toBe(true);
+
+    // @ts-expect-error - edit needs the post
+    expect(() => can.edit().check()).toThrow();
+    // @ts-expect-error - publish needs attributes
+    expect(() => can.publish(post).check()).toThrow();
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+  forbid,
+  notApplicable,
+  permit,
+  policies,
+} from "../src/index";
+
+type User = {
+  id: string;
+  role: "admin" | "editor" | "user";
+  suspended?: boolean;
+};
+type Post = { id: string; authorId: string; locked?: boolean };
+
+describe("Policy combining", () => {
+  const admin: User = { id: "1", role: "admin" };
+  const editor: User = { id: "2", role: "editor" };
+  const author: User = { id: "3", role: "user" };
+  const suspended: User = { id: "3", role: "user", suspended: true };
+  const other: User = { id: "4", role: "user" };
+  const post: Post = { id: "post1", authorId: "3" };
+  const locked: Post = { ...post, locked: true };
+
+  const isAdmin = ({ actor }: { actor: User }) => actor.role === "admin";
+  const isEditor = ({ actor }: { actor: User }) => actor.role === "editor";
+  const isAuthor = ({ actor, entity }: { actor: User; entity: Post }) =>
+    actor.id === entity.authorId;
+  const isLocked = ({ entity }: { actor: User; entity: Post }) =>
+    entity.locked === true;
+
+  const suspendedRule = forbid(
+    ({ actor }: { actor: User }) => !!actor.suspended,
+    {
+      actions: ["create", "edit"],
+      reason: "account suspended",
+      code: "SUSPENDED",
+    }
+  );
+
+  const postDef = createPermissionDefinition("post", {
+    create: ({ actor }: { actor: User; entity?: Post }) =>
+      actor.role !== "user",
+    read: () => true,
+    edit: policies(
+      permit(isAuthor, { reason: "author" }),
+      permit(isEditor),
+      forbid(isLocked, { reason: "post is locked", code: "LOCKED" })
+    ),
+    review: ({ actor }: { actor: User; entity: Post }) =>
+      actor.role === "user" ? notApplicable("not a reviewer") : true,
+  });
+
+  const commentDef = createPermissionDefinition("comment", {
+    create: ({ actor }: { actor: User; entity?: Post }) =>
+      actor.role === "user",
+  });
+
+  it("should apply instance-wide deny rules to every targeted action", () => {
+    const permissions = createPermissions([postDef, commentDef], {
+      rules: [suspendedRule],
+    });
+
+    expect(
+      permissions.explain("post", "edit", { actor: suspended, entity: post })
+    ).toMatchObject({ allowed: false, code: "SUSPENDED" });
+    expect(
+      permissions.explain("comment", "create", {
+        actor: suspended,
+        entity: post,
+      })
+    ).toMatchObject({ allowed: false, reason: "account suspended" });
+    expect(
+      permissions.can("post", "read", { actor: suspended, entity: post })
+    ).toBe(true);
+    expect(
+      permissions.can("comment", "create", { actor: author, entity: post })
+    ).toBe(true);
+  });
+
+  it("should combine the policies of an action with deny-overrides", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(
+      permissions.explain("post", "edit", { actor: author, entity: post })
+    ).toMatchObject({ allowed: true, reason: "author" });
+    expect(
+      permissions.can("post", "edit", { actor: editor, entity: post })
+    ).toBe(true);
+    expect(
+      permissions.explain("post", "edit", { actor: author, entity: locked })
+    ).toMatchObject({ allowed: false, code: "LOCKED" });
+  });
+
+  it("should let permits win with permit-overrides", () => {
+    const permissions = createPermissions([postDef], {
+      combining: "permit-overrides",
+    });
+
+    expect(
+      permissions.can("post", "edit", { actor: author, entity: locked })
+    ).toBe(true);
+    expect(
+      permissions.explain("post", "edit", { actor: other, entity: locked })
+    ).toMatchObject({ allowed: false, code: "LOCKED" });
+  });
+
+  it("should let the first applicable policy decide", () => {
+    const permissions = createPermissions([postDef], {
+      rules: [permit(isAdmin, { reason: "admin" })],
+      combining: "first-applicable",
+    });
+
+    expect(
+      permissions.explain("post", "edit", { actor: admin, entity: locked })
+    ).toMatchObject({ allowed: true, reason: "admin" });
+    expect(
+      permissions.can("post", "edit", { actor: author, entity: locked })
+    ).toBe(true);
+    expect(
+      permissions.can("post", "create", { actor: author, entity: post })
+    ).toBe(false);
+  });
+
+  it("should deny when more than one policy applies with only-one-applicable", () => {
+    const permissions = createPermissions([postDef], {
+      combining: "only-one-applicable",
+    });
+
+    expect(
+      permissions.can("post", "edit", { actor: author, entity: post })
+    ).toBe(true);
+    expect(
+      permissions.explain("post", "edit", { actor: author, entity: locked })
+    ).toMatchObject({ allowed: false, code: "MULTIPLE_APPLICABLE" });
+  });
+
+  it("should select the algorithm per resource", () => {
+    const permissiveDef = createPermissionDefinition("post", postDef.handlers, {
+      combining: "permit-overrides",
+    });
+    const permissions = createPermissions([permissiveDef], {
+      combining: "deny-overrides",
+    });
+
+    expect(
+      permissions.can("post", "edit", { actor: author, entity: locked })
+    ).toBe(true);
+  });
+
+  it("should distinguish not applicable from deny", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(
+      permissions.explain("post", "review", { actor: author, entity: post })
+    ).toMatchObject({
+      allowed: false,
+      notApplicable: true,
+      reason: "not a reviewer",
+    });
+    expect(
+      permissions.explain("post", "edit", { actor: other, entity: post })
+    ).toMatchObject({ allowed: false, notApplicable: true });
+    expect(
+      permissions.can("post", "review", { actor: author, entity: post })
+    ).toBe(false);
+
+    // A not applicable handler leaves the decision to the other policies
+    const withRule = createPermissions([postDef], {
+      rules: [permit(({ actor }: { actor: User }) => actor.id === "3")],
+    });
+    expect(
+      withRule.can("post", "review", { actor: author, entity: post })
+    ).toBe(true);
+  });
+
+  it("should treat a denying handler as a deny policy", () => {
+    const permissions = createPermissions([postDef], {
+      rules: [permit(({ actor }: { actor: User }) => actor.id === "3")],
+    });
+
+    const decision = permissions.explain("post", "create", {
+      actor: author,
+      entity: post,
+    });
+    expect(decision).toMatchObject({ allowed: false });
+    expect(decision).not.toHaveProperty("notApplicable");
+  });
+
+  it("should use deny-overrides when called directly", () => {
+    expect(postDef.handlers.edit({ actor: author, entity: locked })).toEqual(
+      deny("post is locked", "LOCKED")
+    );
+  });
+
+  it("should short-circuit asynchronous policies", async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string, result: boolean) =>
+      async ({ actor }: { actor: User }) => {
+        calls.push(name);
+        return result;
+      };
+    const asyncDef = createPermissionDefinition("report", {
+      view: policies(
+        forbid(track("banned", true)),
+        permit(track("member", true))
+      ),
+    });
+    const permissions = createPermissions([asyncDef]);
+
+    expect(await permissions.can("report", "view", { actor: author })).toBe(
+      false
+    );
+    expect(calls).toEqual(["banned"]);
+  });
+});
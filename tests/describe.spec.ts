@@ -0,0 +1,131 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createPermissionDefinition,
+  createPermissions,
+  UnknownResourceError,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "user" };
+type Post = { id: string; authorId: string };
+
+describe("Introspection", () => {
+  const user: User = { id: "1", role: "user" };
+  const post: Post = { id: "p1", authorId: "2" };
+
+  const postDef = createPermissionDefinition(
+    "post",
+    {
+      create: ({ actor }: { actor: User }) => actor.role === "admin",
+      edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+        actor.id === entity.authorId,
+      publish: async ({ actor }: { actor: User; entity: Post }) =>
+        actor.role === "admin",
+    },
+    {
+      description: "Blog posts",
+      metadata: {
+        edit: {
+          description: "Change a post",
+          tags: ["content"],
+          requiresEntity: true,
+        },
+        publish: { tags: ["content", "moderation"] },
+      },
+    }
+  );
+  const fileDef = createPermissionDefinition("file", {
+    read: ({ actor }: { actor: User }) => !!actor,
+    "*": ({ actor }: { actor: User }) => actor.role === "admin",
+  });
+
+  it("should list resources and actions", () => {
+    const permissions = createPermissions([postDef, fileDef]);
+
+    expect(permissions.resources()).toEqual(["post", "file"]);
+    expect(permissions.actions("post")).toEqual(["create", "edit", "publish"]);
+    expect(permissions.actions("file")).toEqual(["read"]);
+    expect(permissions.actions("file:reports")).toEqual(["read"]);
+    expect(() => permissions.actions("comment" as "post")).toThrow(
+      UnknownResourceError
+    );
+  });
+
+  it("should tell whether resources and actions exist", () => {
+    const permissions = createPermissions([postDef, fileDef]);
+
+    expect(permissions.has("post")).toBe(true);
+    expect(permissions.has("post:drafts")).toBe(true);
+    expect(permissions.has("comment")).toBe(false);
+    expect(permissions.has("post", "edit")).toBe(true);
+    expect(permissions.has("post", "archive")).toBe(false);
+    expect(permissions.has("post", "toString")).toBe(false);
+    expect(permissions.has("file", "delete")).toBe(true);
+  });
+
+  it("should narrow names from user input", () => {
+    const permissions = createPermissions([postDef]);
+    const input: { resource: string; action: string } = {
+      resource: "post",
+      action: "create",
+    };
+
+    // @ts-expect-error - the names are unchecked strings
+    expect(() => permissions.can(input.resource, input.action, {})).toThrow();
+
+    const { resource, action } = input;
+    if (permissions.has(resource) && permissions.has(resource, action)) {
+      expect(
+        permissions.can(resource, action, { actor: user, entity: post })
+      ).toBe(false);
+    } else {
+      throw new Error("expected the names to exist");
+    }
+  });
+
+  it("should describe resources with their declared metadata", () => {
+    const permissions = createPermissions([postDef, fileDef]);
+
+    expect(permissions.describe()).toEqual([
+      {
+        resource: "post",
+        description: "Blog posts",
+        actions: [
+          { action: "create", tags: [], async: false },
+          {
+            action: "edit",
+            description: "Change a post",
+            tags: ["content"],
+            requiresEntity: true,
+            async: false,
+          },
+          { action: "publish", tags: ["content", "moderation"], async: true },
+        ],
+      },
+      {
+        resource: "file",
+        actions: [{ action: "read", tags: [], async: false }],
+      },
+    ]);
+  });
+
+  it("should merge metadata of merged definitions", () => {
+    const permissions = createPermissions([postDef]).add(
+      createPermissionDefinition(
+        "post",
+        { archive: ({ actor }: { actor: User }) => actor.role === "admin" },
+        { metadata: { archive: { description: "Hide a post", async: true } } }
+      ),
+      { onConflict: "merge" }
+    );
+
+    const [post] = permissions.describe();
+    expect(
+      post?.actions.map((a) => [a.action, a.description, a.async])
+    ).toEqual([
+      ["create", undefined, false],
+      ["edit", "Change a post", false],
+      ["publish", undefined, true],
+      ["archive", "Hide a post", true],
+    ]);
+  });
+});
@@ -189,7 +189,7 @@ describe("Edge Cases", () => {
         permissions.can("special-resource_name.123", "action", { actor })
       ).toBe(true);
       expect(
-        permissions.get("special-resource_name.123").can(actor).action()
+        permissions.get("special-resource_name.123").can(actor).action().check()
       ).toBe(true);
     });
 
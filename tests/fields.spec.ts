@@ -0,0 +1,145 @@
+import { describe, it, expect } from "bun:test";
+import { createPermissionDefinition, createPermissions } from "../src/index";
+
+type User = { id: string; department: "hr" | "engineering" };
+type Dependent = { name: string; ssn: string };
+type Employee = {
+  id: string;
+  name: string;
+  salary: number;
+  address: { city: string; street: string };
+  dependents: Dependent[];
+};
+
+describe("Field permissions", () => {
+  const hr: User = { id: "1", department: "hr" };
+  const engineer: User = { id: "2", department: "engineering" };
+  const employee: Employee = {
+    id: "2",
+    name: "Ada",
+    salary: 100,
+    address: { city: "London", street: "Baker St" },
+    dependents: [{ name: "Bob", ssn: "123" }],
+  };
+
+  const employeeDef = createPermissionDefinition(
+    "employee",
+    {
+      read: ({ actor }: { actor: User; entity: Employee }) => !!actor,
+    },
+    {
+      fields: {
+        salary: ({ actor }) => actor.department === "hr",
+        address: {
+          street: ({ actor, entity }) =>
+            actor.department === "hr" || actor.id === entity.id,
+        },
+        dependents: { ssn: ({ actor }) => actor.department === "hr" },
+      },
+    }
+  );
+
+  it("should remove hidden fields, nested and in arrays", () => {
+    const permissions = createPermissions([employeeDef]);
+    const other = { ...employee, id: "3" };
+
+    expect(permissions.redact("employee", engineer, other)).toEqual({
+      id: "3",
+      name: "Ada",
+      address: { city: "London" },
+      dependents: [{ name: "Bob" }],
+    });
+    expect(permissions.redact("employee", hr, other)).toEqual(other);
+    expect(permissions.redact("employee", engineer, employee)).toMatchObject({
+      address: { city: "London", street: "Baker St" },
+    });
+  });
+
+  it("should not modify the entity", () => {
+    const permissions = createPermissions([employeeDef]);
+
+    const result = permissions.redact("employee", engineer, employee);
+    expect(result).not.toBe(employee);
+    expect(employee.salary).toBe(100);
+    expect(employee.dependents[0]!.ssn).toBe("123");
+  });
+
+  it("should redact arrays of entities", () => {
+    const permissions = createPermissions([employeeDef]);
+
+    const result = permissions.redact("employee", engineer, [employee]);
+    expect(result).toEqual([
+      {
+        id: "2",
+        name: "Ada",
+        address: { city: "London", street: "Baker St" },
+        dependents: [{ name: "Bob" }],
+      },
+    ]);
+  });
+
+  it("should mask hidden fields", () => {
+    const permissions = createPermissions([employeeDef]);
+
+    expect(
+      permissions.redact("employee", engineer, employee, { mask: null })
+    ).toMatchObject({ salary: null, dependents: [{ ssn: null }] });
+    expect(
+      permissions.redact("employee", engineer, employee, {
+        mask: (value: unknown, path: string) => `${path}:${typeof value}`,
+      })
+    ).toMatchObject({
+      salary: "salary:number",
+      dependents: [{ ssn: "dependents.ssn:string" }],
+    });
+  });
+
+  it("should support asynchronous field rules", async () => {
+    const asyncDef = createPermissionDefinition(
+      "employee",
+      { read: ({ actor }: { actor: User; entity: Employee }) => !!actor },
+      { fields: { salary: async ({ actor }) => actor.department === "hr" } }
+    );
+    const permissions = createPermissions([asyncDef]);
+
+    const result = permissions.redact("employee", engineer, employee);
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).not.toHaveProperty("salary");
+    expect(await permissions.redact("employee", hr, employee)).toHaveProperty(
+      "salary",
+      100
+    );
+  });
+
+  it("should return a copy when the resource has no field rules", () => {
+    const openDef = createPermissionDefinition("employee", {
+      read: ({ actor }: { actor: User; entity: Employee }) => !!actor,
+    });
+    const permissions = createPermissions([openDef]);
+
+    const result = permissions.redact("employee", engineer, employee);
+    expect(result).toEqual(employee);
+    expect(result).not.toBe(employee);
+  });
+
+  it("should make redacted fields optional", () => {
+    const permissions = createPermissions([employeeDef]);
+    const result = permissions.redact("employee", engineer, employee);
+    if (result instanceof Promise) throw new Error("expected a sync result");
+
+    const salary: number | undefined = result.salary;
+    const name: string = result.name;
+    const city: string = result.address.city;
+    const ssn: string | undefined = result.dependents[0]?.ssn;
+    expect([salary, name, city, ssn]).toEqual([
+      undefined,
+      "Ada",
+      "London",
+      undefined,
+    ]);
+
+    // @ts-expect-error - salary may have been removed
+    const full: Employee = result;
+    expect(full).toBeDefined();
+  });
+});
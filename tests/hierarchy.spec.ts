@@ -0,0 +1,199 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  createRoles,
+  forbid,
+  UnknownActionError,
+  UnknownResourceError,
+} from "../src/index";
+
+type User = { id: string; role: "owner" | "member" | "auditor"; orgId: string };
+type Resource = { id: string; orgId: string; archived?: boolean };
+
+describe("Hierarchical names", () => {
+  const owner: User = { id: "1", role: "owner", orgId: "acme" };
+  const member: User = { id: "2", role: "member", orgId: "acme" };
+  const auditor: User = { id: "3", role: "auditor", orgId: "globex" };
+  const doc: Resource = { id: "doc1", orgId: "acme" };
+
+  const orgDef = createPermissionDefinition("org", {
+    read: ({ actor, entity }: { actor: User; entity: Resource }) =>
+      actor.orgId === entity.orgId,
+    manage: ({ actor }: { actor: User; entity: Resource }) =>
+      actor.role === "owner",
+  });
+  const projectDef = createPermissionDefinition("org:project", {
+    read: ({ actor, entity }: { actor: User; entity: Resource }) =>
+      actor.orgId === entity.orgId,
+    "*": ({ actor }: { actor: User; entity: Resource }) =>
+      actor.role === "owner",
+  });
+
+  it("should fall back to the closest registered parent", () => {
+    const permissions = createPermissions([orgDef, projectDef]);
+
+    expect(
+      permissions.can("org:project:document", "read", {
+        actor: member,
+        entity: doc,
+      })
+    ).toBe(true);
+    expect(
+      permissions.can("org:team", "manage", { actor: member, entity: doc })
+    ).toBe(false);
+    expect(
+      permissions.get("org:team:channel").can(owner).manage(doc).check()
+    ).toBe(true);
+  });
+
+  it("should report the requested resource", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([orgDef, projectDef], {
+      audit: { sink },
+    });
+
+    expect(
+      permissions.explain("org:project:document", "read", {
+        actor: member,
+        entity: doc,
+      })
+    ).toMatchObject({ resource: "org:project:document", allowed: true });
+    expect(sink.events[0]!.resource).toBe("org:project:document");
+  });
+
+  it("should throw for names without a registered ancestor", () => {
+    const permissions = createPermissions([projectDef]);
+
+    expect(() =>
+      // @ts-expect-error - 'org' is above the registered names
+      permissions.can("org", "read", { actor: member, entity: doc })
+    ).toThrow(UnknownResourceError);
+    expect(() =>
+      permissions.can(
+        // @ts-expect-error - 'team' is not registered
+        "team:project",
+        "read",
+        { actor: member, entity: doc }
+      )
+    ).toThrow("No permission definition for resource: team:project");
+  });
+
+  it("should use a configurable separator", () => {
+    const slashDef = createPermissionDefinition(
+      "org/project",
+      projectDef.handlers
+    );
+    const permissions = createPermissions([slashDef], { separator: "/" });
+
+    expect(
+      permissions.can("org/project/document", "read", {
+        actor: member,
+        entity: doc,
+      })
+    ).toBe(true);
+
+    const exact = createPermissions([orgDef], { separator: false });
+    expect(() =>
+      // @ts-expect-error - names must match exactly
+      exact.can("org:project", "read", { actor: member, entity: doc })
+    ).toThrow(UnknownResourceError);
+  });
+
+  it("should route unknown actions to a wildcard handler", async () => {
+    const permissions = createPermissions([orgDef, projectDef]);
+
+    expect(
+      permissions.can("org:project", "archive", { actor: owner, entity: doc })
+    ).toBe(true);
+    expect(
+      permissions.can("org:project", "archive", { actor: member, entity: doc })
+    ).toBe(false);
+    expect(
+      await permissions.evaluateAll("org:project", {
+        actor: member,
+        entity: doc,
+      })
+    ).toEqual({ read: true });
+    expect(() =>
+      (permissions as any).can("org", "archive", { actor: owner, entity: doc })
+    ).toThrow(UnknownActionError);
+  });
+
+  it("should only offer named actions as methods", () => {
+    const permissions = createPermissions([orgDef, projectDef]);
+    const actions = permissions.can("org:project", {
+      actor: owner,
+      entity: doc,
+    });
+
+    expect(Object.keys(actions)).toEqual(["read"]);
+    // @ts-expect-error - the wildcard is checked by name with can()
+    expect(actions.archive).toBeUndefined();
+    // @ts-expect-error - the wildcard is checked by name with can()
+    expect(permissions.get("org:project").can(owner).archive).toBeUndefined();
+  });
+
+  it("should match patterns in role grants", () => {
+    const permissions = createPermissions([orgDef, projectDef], {
+      roles: createRoles({
+        auditor: { "*": ["read"] },
+        member: { "org:*": ["*"] },
+      }),
+    });
+
+    expect(
+      permissions.can("org:project:document", "read", {
+        actor: auditor,
+        entity: doc,
+      })
+    ).toBe(true);
+    expect(
+      permissions.can("org", "manage", { actor: auditor, entity: doc })
+    ).toBe(false);
+    expect(
+      permissions.can("org:project", "delete", { actor: member, entity: doc })
+    ).toBe(true);
+    expect(
+      permissions.can("org", "manage", { actor: member, entity: doc })
+    ).toBe(false);
+  });
+
+  it("should match patterns in rules", () => {
+    const permissions = createPermissions([orgDef, projectDef], {
+      rules: [
+        forbid(
+          ({ entity }: { actor: User; entity: Resource }) => !!entity.archived,
+          { resources: ["org:*"], actions: ["*"] }
+        ),
+      ],
+    });
+    const archived = { ...doc, archived: true };
+
+    expect(
+      permissions.can("org:project", "read", { actor: owner, entity: archived })
+    ).toBe(false);
+    expect(
+      permissions.can("org", "read", { actor: owner, entity: archived })
+    ).toBe(true);
+  });
+
+  it("should type nested names against their resolved definition", () => {
+    const permissions = createPermissions([orgDef, projectDef]);
+
+    permissions.get("org:project:document").can(member).read(doc);
+    permissions.can("org:project:document", "publish", {
+      actor: member,
+      entity: doc,
+    });
+    expect(() =>
+      // @ts-expect-error - 'team' is not registered
+      permissions.can("team:project", "read", { actor: member, entity: doc })
+    ).toThrow(UnknownResourceError);
+    expect(() =>
+      // @ts-expect-error - 'org' has no 'publish' action and no wildcard
+      permissions.can("org:team", "publish", { actor: member, entity: doc })
+    ).toThrow(UnknownActionError);
+  });
+});
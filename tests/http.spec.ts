@@ -0,0 +1,175 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+} from "../src/index";
+import { createPermissionMiddleware, permissionContext } from "../src/http";
+
+type User = { id: string; role: "admin" | "user" };
+type Post = { id: string; authorId: string };
+
+describe("HTTP middleware", () => {
+  const users: Record<string, User> = {
+    admin: { id: "1", role: "admin" },
+    author: { id: "2", role: "user" },
+    reader: { id: "3", role: "user" },
+  };
+  const posts: Record<string, Post> = { p1: { id: "p1", authorId: "2" } };
+
+  const postDef = createPermissionDefinition("post", {
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.role === "admin" ||
+      actor.id === entity.authorId ||
+      deny("only the author may edit", "NOT_AUTHOR"),
+    delete: ({ actor }: { actor: User; entity: Post }): boolean => {
+      throw new Error(`cannot reach policy service for ${actor.id}`);
+    },
+  });
+  const permissions = createPermissions([postDef]);
+
+  const errors: unknown[] = [];
+  const requirePermission = createPermissionMiddleware(permissions, {
+    onError: (error) => errors.push(error),
+  });
+
+  const resolvers = {
+    actor: (req: Request) => users[req.headers.get("x-user") ?? ""],
+    entity: async (req: Request) =>
+      posts[new URL(req.url).pathname.split("/").pop()!],
+  };
+  const request = (user?: string, method = "PATCH") =>
+    new Request("http://localhost/posts/p1", {
+      method,
+      headers: user ? { "x-user": user } : {},
+    });
+
+  const edit = requirePermission(
+    "post",
+    "edit",
+    resolvers
+  )((req) => Response.json({ edited: permissionContext(req)?.entity }));
+
+  it("should run the handler when the check allows", async () => {
+    for (const user of ["admin", "author"]) {
+      const response = await edit(request(user));
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ edited: posts.p1 });
+    }
+  });
+
+  it("should answer 401 without an actor", async () => {
+    const response = await edit(request());
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe("Unauthorized");
+  });
+
+  it("should answer 403 when the check denies", async () => {
+    const response = await edit(request("reader"));
+    expect(response.status).toBe(403);
+    expect(await response.text()).toBe("Forbidden");
+  });
+
+  it("should describe denials as problem details", async () => {
+    const guarded = requirePermission("post", "edit", {
+      ...resolvers,
+      problemDetails: true,
+    })(() => new Response("edited"));
+
+    const response = await guarded(request("reader"));
+    expect(response.status).toBe(403);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/problem+json"
+    );
+    expect(await response.json()).toEqual({
+      type: "about:blank",
+      title: "Forbidden",
+      status: 403,
+      detail: "only the author may edit",
+      code: "NOT_AUTHOR",
+      resource: "post",
+      action: "edit",
+    });
+    expect((await guarded(request())).status).toBe(401);
+  });
+
+  it("should answer 500 when the check throws", async () => {
+    errors.length = 0;
+    const remove = requirePermission("post", "delete", {
+      ...resolvers,
+      problemDetails: true,
+    })(() => new Response(null, { status: 204 }));
+
+    const response = await remove(request("admin", "DELETE"));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: 500,
+    });
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as Error).message).toContain("policy service");
+  });
+
+  it("should pass extra handler arguments through, as Bun.serve does", async () => {
+    const server = { hostname: "localhost" };
+    const handler = requirePermission(
+      "post",
+      "edit",
+      resolvers
+    )((req: Request, srv: typeof server) => new Response(srv.hostname));
+
+    expect(await (await handler(request("admin"), server)).text()).toBe(
+      "localhost"
+    );
+  });
+
+  it("should check requests for framework middleware", async () => {
+    const guard = requirePermission("post", "edit", resolvers);
+    // e.g. Hono: app.use(async (c, next) => (await guard.check(c.req.raw)) ?? next())
+    expect(await guard.check(request("author"))).toBeUndefined();
+    expect((await guard.check(request("reader")))?.status).toBe(403);
+  });
+
+  it("should answer a missing entity like a denial", async () => {
+    const missing = () =>
+      new Request("http://localhost/posts/p2", {
+        method: "PATCH",
+        headers: { "x-user": "reader" },
+      });
+    const guard = createPermissionMiddleware(permissions, {
+      problemDetails: true,
+    })("post", "edit", resolvers);
+
+    expect((await edit(missing())).status).toBe(403);
+    expect(await (await guard.check(missing()))?.json()).toEqual({
+      type: "about:blank",
+      title: "Forbidden",
+      status: 403,
+      resource: "post",
+      action: "edit",
+    });
+  });
+
+  it("should answer 404 for a missing entity with notFound", async () => {
+    const request = new Request("http://localhost/posts/p2", {
+      method: "PATCH",
+      headers: { "x-user": "admin" },
+    });
+    const guard = requirePermission("post", "edit", {
+      ...resolvers,
+      notFound: true,
+    });
+
+    expect((await guard.check(request))?.status).toBe(404);
+  });
+
+  it("should type resolvers from the definitions", () => {
+    const actor = () => users.admin;
+    // @ts-expect-error - the entity must be a Post
+    requirePermission("post", "edit", { actor, entity: () => 1 });
+    // @ts-expect-error - unknown action
+    requirePermission("post", "publish", resolvers);
+    expect(true).toBe(true);
+  });
+});
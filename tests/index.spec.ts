@@ -1,7 +1,14 @@
 import { describe, it, expect } from "bun:test";
 import {
+  allow,
+  AuthorizationError,
   createPermissionDefinition,
   createPermissions,
+  deny,
+  DuplicateResourceError,
+  isVerdict,
+  UnknownActionError,
+  UnknownResourceError,
   type Args,
   type ActionHandler,
   type ActionMap,
@@ -198,9 +205,9 @@ describe("createPermissions", () => {
       expect(typeof postAccess.edit).toBe("function");
 
       // Test the builder methods
-      expect(postAccess.create()).toBe(true);
-      expect(postAccess.read()).toBe(true);
-      expect(postAccess.edit(post)).toBe(true); // admin can edit any post
+      expect(postAccess.create().check()).toBe(true);
+      expect(postAccess.read().check()).toBe(true);
+      expect(postAccess.edit(post).check()).toBe(true); // admin can edit any post
     });
 
     it("should handle entity and attributes in builder pattern", () => {
@@ -219,10 +226,85 @@ describe("createPermissions", () => {
 
       const postAccess = permissions.get("post").can(user);
 
-      expect(postAccess.create()).toBe(false);
-      expect(postAccess.read()).toBe(true);
-      expect(postAccess.read(post)).toBe(true);
-      expect(postAccess.edit(post)).toBe(true); // user can edit their own post
+      expect(postAccess.create().check()).toBe(false);
+      expect(postAccess.read().check()).toBe(true);
+      expect(postAccess.read(post).check()).toBe(true);
+      expect(postAccess.edit(post).check()).toBe(true); // user can edit their own post
+    });
+  });
+
+  describe("add() method", () => {
+    it("should register definitions and widen the resource types", () => {
+      const permissions = createPermissions().add(postDef).add(userDef);
+      const admin: User = {
+        id: "1",
+        name: "Admin",
+        role: "admin",
+        createdAt: new Date(),
+      };
+      const post: Post = {
+        id: "post1",
+        title: "Test",
+        authorId: "2",
+        published: true,
+      };
+
+      expect(
+        permissions.can("post", "edit", { actor: admin, entity: post })
+      ).toBe(true);
+      expect(
+        permissions.can("user", "edit", { actor: admin, entity: admin })
+      ).toBe(true);
+    });
+
+    it("should reject duplicate resources by default", () => {
+      const permissions = createPermissions([postDef]);
+
+      expect(() => permissions.add(postDef)).toThrow(
+        "Permission definition for resource 'post' already exists"
+      );
+      expect(() => permissions.add(postDef)).toThrow(DuplicateResourceError);
+    });
+
+    it("should replace an existing resource when asked to", () => {
+      const replacement = createPermissionDefinition("post", {
+        create: ({ actor }: { actor: User }) => false,
+      });
+      const permissions = createPermissions([postDef]).add(replacement, {
+        onConflict: "replace",
+      });
+      const admin: User = {
+        id: "1",
+        name: "Admin",
+        role: "admin",
+        createdAt: new Date(),
+      };
+
+      expect(permissions.can("post", "create", { actor: admin })).toBe(false);
+      expect(() =>
+        // @ts-expect-error - the replaced definition's actions are gone
+        permissions.can("post", "read", { actor: admin })
+      ).toThrow("No handler for action 'read' on resource 'post'");
+    });
+
+    it("should merge handlers of an existing resource when asked to", () => {
+      const extension = createPermissionDefinition("post", {
+        create: ({ actor }: { actor: User }) => false,
+        archive: ({ actor }: { actor: User }) => actor.role === "admin",
+      });
+      const permissions = createPermissions([postDef]).add(extension, {
+        onConflict: "merge",
+      });
+      const admin: User = {
+        id: "1",
+        name: "Admin",
+        role: "admin",
+        createdAt: new Date(),
+      };
+
+      expect(permissions.can("post", "create", { actor: admin })).toBe(false);
+      expect(permissions.can("post", "archive", { actor: admin })).toBe(true);
+      expect(permissions.can("post", "read", { actor: admin })).toBe(true);
     });
   });
 
@@ -532,6 +614,425 @@ describe("createPermissions", () => {
   });
 });
 
+describe("explain() and verdicts", () => {
+  const admin: User = {
+    id: "1",
+    name: "Admin",
+    role: "admin",
+    createdAt: new Date(),
+  };
+  const user: User = {
+    id: "2",
+    name: "User",
+    role: "user",
+    createdAt: new Date(),
+  };
+  const post: Post = {
+    id: "post1",
+    title: "Test",
+    authorId: "2",
+    published: false,
+  };
+
+  const postDef = createPermissionDefinition("post", {
+    create: ({ actor }: { actor: User }) => actor.role === "admin",
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.id === entity.authorId
+        ? allow("author")
+        : deny("not the author", "NOT_AUTHOR"),
+    publish: async ({ actor, entity }: { actor: User; entity: Post }) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return entity.published ? deny("already published") : allow();
+    },
+  });
+
+  const permissions = createPermissions([postDef]);
+
+  it("should create branded verdicts", () => {
+    expect(isVerdict(allow())).toBe(true);
+    expect(isVerdict(deny("nope"))).toBe(true);
+    expect(isVerdict({ allowed: true })).toBe(false);
+    expect(deny("nope", "CODE")).toEqual({
+      allowed: false,
+      reason: "nope",
+      code: "CODE",
+    } as any);
+  });
+
+  it("should explain denials with reason and code", () => {
+    const decision = permissions.explain("post", "edit", {
+      actor: admin,
+      entity: post,
+    });
+
+    expect(decision).toMatchObject({
+      allowed: false,
+      resource: "post",
+      action: "edit",
+      reason: "not the author",
+      code: "NOT_AUTHOR",
+    });
+    expect(typeof (decision as any).durationMs).toBe("number");
+  });
+
+  it("should explain plain boolean handlers", () => {
+    const decision = permissions.explain("post", "create", {
+      actor: admin,
+      entity: post,
+    });
+
+    expect(decision).toMatchObject({
+      allowed: true,
+      resource: "post",
+      action: "create",
+    });
+    expect("reason" in decision).toBe(false);
+  });
+
+  it("should explain async handlers", async () => {
+    const decision = await permissions.explain("post", "publish", {
+      actor: user,
+      entity: post,
+    });
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.durationMs).toBeGreaterThan(0);
+  });
+
+  it("should keep the boolean APIs returning booleans", async () => {
+    expect(permissions.can("post", "edit", { actor: user, entity: post })).toBe(
+      true
+    );
+    expect(permissions.can("post", { actor: admin, entity: post }).edit()).toBe(
+      false
+    );
+    expect(permissions.get("post").can(user).edit(post).check()).toBe(true);
+    expect(await permissions.get("post").can(user).publish(post)).toBe(true);
+  });
+
+  it("should throw for unknown actions", () => {
+    expect(() =>
+      permissions.explain("post", "nonexistent" as any, { actor: admin } as any)
+    ).toThrow("No handler for action 'nonexistent' on resource 'post'");
+  });
+});
+
+describe("authorize() and assert", () => {
+  const admin: User = {
+    id: "1",
+    name: "Admin",
+    role: "admin",
+    createdAt: new Date(),
+  };
+  const user: User = {
+    id: "2",
+    name: "User",
+    role: "user",
+    createdAt: new Date(),
+  };
+  const post: Post = {
+    id: "post1",
+    title: "Test",
+    authorId: "3",
+    published: true,
+  };
+
+  const postDef = createPermissionDefinition("post", {
+    create: ({ actor }: { actor: User }) => actor.role === "admin",
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.role === "admin" || actor.id === entity.authorId
+        ? allow()
+        : deny("not the author", "NOT_AUTHOR"),
+  });
+
+  const permissions = createPermissions([postDef]);
+
+  async function rejection(promise: PromiseLike<unknown>) {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    throw new Error("expected the promise to reject");
+  }
+
+  it("should resolve when the action is allowed", async () => {
+    expect(
+      await permissions.authorize("post", "edit", {
+        actor: admin,
+        entity: post,
+      })
+    ).toBeUndefined();
+  });
+
+  it("should reject with an AuthorizationError when denied", async () => {
+    const error = await rejection(
+      permissions.authorize("post", "edit", { actor: user, entity: post })
+    );
+
+    expect(error).toBeInstanceOf(AuthorizationError);
+    expect(error).toMatchObject({
+      resource: "post",
+      action: "edit",
+      actorId: "2",
+      reason: "not the author",
+      code: "NOT_AUTHOR",
+      message: "Not authorized to edit post: not the author",
+    });
+  });
+
+  it("should use a custom actor id extractor", async () => {
+    const custom = createPermissions([postDef], {
+      actorId: (actor: User) => actor.name,
+    });
+
+    const error = await rejection(
+      custom.authorize("post", "create", { actor: user, entity: post })
+    );
+
+    expect((error as AuthorizationError).actorId).toBe("User");
+    expect((error as AuthorizationError).reason).toBeUndefined();
+  });
+
+  it("should throw from builder assert methods", async () => {
+    expect(
+      await permissions.get("post").can(admin).assert.edit(post)
+    ).toBeUndefined();
+    expect(() =>
+      permissions.get("post").can(user).assert.edit(post).check()
+    ).toThrow(AuthorizationError);
+
+    const error = await rejection(
+      permissions.get("post").can(user).assert.create()
+    );
+    expect(error).toBeInstanceOf(AuthorizationError);
+    expect(() =>
+      permissions.get("post").assert(user).edit(post).check()
+    ).toThrow(AuthorizationError);
+  });
+
+  it("should keep an action named assert on the builder", async () => {
+    const claims = createPermissions([
+      createPermissionDefinition("claim", {
+        assert: ({ actor }: { actor: User }) => actor.role === "admin",
+      }),
+    ]);
+
+    expect(claims.get("claim").can(admin).assert().check()).toBe(true);
+    // @ts-expect-error - the action shadows the throwing variants
+    expect(claims.get("claim").can(admin).assert.assert).toBeUndefined();
+    expect(await claims.get("claim").can(user).assert()).toBe(false);
+    expect(() => claims.get("claim").assert(user).assert().check()).toThrow(
+      AuthorizationError
+    );
+  });
+
+  it("should distinguish configuration errors from denials", async () => {
+    expect(() => permissions.get("comment" as any)).toThrow(
+      UnknownResourceError
+    );
+    expect(() =>
+      permissions.can("post", "archive" as any, { actor: admin } as any)
+    ).toThrow(UnknownActionError);
+
+    const error = await rejection(
+      permissions.authorize("post", "archive" as any, { actor: admin } as any)
+    );
+    expect(error).toBeInstanceOf(UnknownActionError);
+    expect(error).toMatchObject({ resource: "post", action: "archive" });
+  });
+
+  it("should not treat inherited names as actions", () => {
+    expect(() =>
+      permissions.can("post", "toString" as any, { actor: admin } as any)
+    ).toThrow(UnknownActionError);
+    expect(permissions.has("post", "toString")).toBe(false);
+  });
+});
+
+describe("batch evaluation", () => {
+  type Comment = { id: string; authorId: string };
+
+  const admin: User = {
+    id: "1",
+    name: "Admin",
+    role: "admin",
+    createdAt: new Date(),
+  };
+  const user: User = {
+    id: "2",
+    name: "User",
+    role: "user",
+    createdAt: new Date(),
+  };
+  const post: Post = {
+    id: "post1",
+    title: "Test",
+    authorId: "2",
+    published: true,
+  };
+  const comment: Comment = { id: "comment1", authorId: "3" };
+
+  const postDef = createPermissionDefinition("post", {
+    create: ({ actor }: { actor: User }) => actor.role === "admin",
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.role === "admin" || actor.id === entity.authorId,
+    delete: async ({ actor }: { actor: User; entity: Post }) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return deny("posts are never deleted");
+    },
+  });
+
+  const commentDef = createPermissionDefinition("comment", {
+    reply: ({ actor }: { actor: User }) => true,
+    delete: ({ actor, entity }: { actor: User; entity: Comment }) =>
+      actor.id === entity.authorId,
+  });
+
+  const permissions = createPermissions([postDef, commentDef]);
+
+  it("should evaluate every action of a resource", async () => {
+    const results = await permissions.evaluateAll("post", {
+      actor: user,
+      entity: post,
+    });
+
+    expect(results).toEqual({ create: false, edit: true, delete: false });
+  });
+
+  it("should evaluate a matrix of resources and actions", async () => {
+    const [postActions, commentActions] = await permissions.matrix(user, [
+      { resource: "post", entity: post },
+      { resource: "comment", entity: comment, actions: ["delete"] },
+    ]);
+
+    expect(postActions).toEqual({ create: false, edit: true, delete: false });
+    expect(commentActions).toEqual({ delete: false });
+    expect(commentActions.delete).toBe(false);
+
+    // @ts-expect-error - reply was not requested
+    commentActions.reply;
+  });
+
+  it("should respect the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const slowDef = createPermissionDefinition("slow", {
+      a: async ({ actor }: { actor: User }) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return true;
+      },
+      b: async ({ actor }: { actor: User }) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return actor.role === "admin";
+      },
+    });
+    const slowPermissions = createPermissions([slowDef]);
+
+    const results = await slowPermissions.matrix(
+      admin,
+      [{ resource: "slow" }, { resource: "slow" }, { resource: "slow" }],
+      { concurrency: 2 }
+    );
+
+    expect(results).toEqual([
+      { a: true, b: true },
+      { a: true, b: true },
+      { a: true, b: true },
+    ]);
+    expect(peak).toBe(2);
+  });
+
+  it("should reject unknown resources and actions before running handlers", async () => {
+    let error: unknown;
+    try {
+      await permissions.matrix(admin, [
+        { resource: "post", entity: post, actions: ["archive" as any] },
+      ]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(UnknownActionError);
+  });
+});
+
+describe("collection filtering", () => {
+  const user: User = {
+    id: "2",
+    name: "User",
+    role: "user",
+    createdAt: new Date(),
+  };
+  const posts: Post[] = [
+    { id: "p1", title: "Mine", authorId: "2", published: false },
+    { id: "p2", title: "Public", authorId: "3", published: true },
+    { id: "p3", title: "Draft", authorId: "3", published: false },
+  ];
+
+  const postDef = createPermissionDefinition("post", {
+    read: async ({ actor, entity }: { actor: User; entity: Post }) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return entity.published || actor.id === entity.authorId;
+    },
+    edit: ({
+      actor,
+      entity,
+      attributes,
+    }: {
+      actor: User;
+      entity: Post;
+      attributes?: PostAttributes;
+    }) => actor.id === entity.authorId || attributes?.visibility === "public",
+  });
+
+  const permissions = createPermissions([postDef]);
+
+  it("should keep only the permitted entities", async () => {
+    const readable = await permissions.filter("post", "read", user, posts);
+
+    expect(readable.map((post) => post.id)).toEqual(["p1", "p2"]);
+  });
+
+  it("should pass attributes to every check", async () => {
+    const editable = await permissions.filter("post", "edit", user, posts, {
+      attributes: { visibility: "public" },
+    });
+
+    expect(editable).toHaveLength(3);
+  });
+
+  it("should accept async iterables", async () => {
+    async function* load() {
+      yield* posts;
+    }
+
+    const readable = await permissions.filter("post", "read", user, load(), {
+      concurrency: 1,
+    });
+
+    expect(readable.map((post) => post.id)).toEqual(["p1", "p2"]);
+  });
+
+  it("should partition entities into allowed and denied", async () => {
+    const [editable, readOnly] = await permissions.partition(
+      "post",
+      "edit",
+      user,
+      posts
+    );
+
+    expect(editable.map((post) => post.id)).toEqual(["p1"]);
+    expect(readOnly.map((post) => post.id)).toEqual(["p2", "p3"]);
+  });
+});
+
 describe("type exports", () => {
   it("should export all required types", () => {
     // These are compile-time checks that the types are properly exported
@@ -706,18 +1207,22 @@ describe("Method chaining API", () => {
 
   describe("Actor-only actions", () => {
     it("should work with admin user", () => {
-      const canView = permissions.get("user").can(admin).view();
+      const canView = permissions.get("user").can(admin).view().check();
       expect(canView).toBe(true);
 
-      const canCreate = permissions.get("post").can(admin).create();
+      const canCreate = permissions.get("post").can(admin).create().check();
       expect(canCreate).toBe(true);
     });
 
     it("should work with regular user", () => {
-      const canView = permissions.get("user").can(regularUser).view();
+      const canView = permissions.get("user").can(regularUser).view().check();
       expect(canView).toBe(false);
 
-      const canCreate = permissions.get("post").can(regularUser).create();
+      const canCreate = permissions
+        .get("post")
+        .can(regularUser)
+        .create()
+        .check();
       expect(canCreate).toBe(false);
     });
   });
@@ -727,22 +1232,35 @@ describe("Method chaining API", () => {
       const canEdit = permissions
         .get("user")
         .can(regularUser)
-        .edit(regularUser);
+        .edit(regularUser)
+        .check();
       expect(canEdit).toBe(true);
     });
 
     it("should handle user editing others", () => {
-      const canEdit = permissions.get("user").can(regularUser).edit(targetUser);
+      const canEdit = permissions
+        .get("user")
+        .can(regularUser)
+        .edit(targetUser)
+        .check();
       expect(canEdit).toBe(false);
     });
 
     it("should handle admin editing anyone", () => {
-      const canEdit = permissions.get("user").can(admin).edit(targetUser);
+      const canEdit = permissions
+        .get("user")
+        .can(admin)
+        .edit(targetUser)
+        .check();
       expect(canEdit).toBe(true);
     });
 
     it("should handle post reading with published post", () => {
-      const canRead = permissions.get("post").can(regularUser).read(post);
+      const canRead = permissions
+        .get("post")
+        .can(regularUser)
+        .read(post)
+        .check();
       expect(canRead).toBe(true);
     });
 
@@ -751,13 +1269,15 @@ describe("Method chaining API", () => {
       const canRead = permissions
         .get("post")
         .can(regularUser)
-        .read(unpublishedPost);
+        .read(unpublishedPost)
+        .check();
       expect(canRead).toBe(false);
 
       const adminCanRead = permissions
         .get("post")
         .can(admin)
-        .read(unpublishedPost);
+        .read(unpublishedPost)
+        .check();
       expect(adminCanRead).toBe(true);
     });
   });
@@ -770,7 +1290,8 @@ describe("Method chaining API", () => {
         .sendMessage(message, {
           to: targetUser,
           friendsList: ["3"], // targetUser.id is "3"
-        });
+        })
+        .check();
       expect(canSend).toBe(true);
     });
 
@@ -781,7 +1302,8 @@ describe("Method chaining API", () => {
         .sendMessage(message, {
           to: targetUser,
           friendsList: ["1", "4"], // targetUser.id "3" not in list
-        });
+        })
+        .check();
       expect(canSend).toBe(false);
     });
 
@@ -792,35 +1314,50 @@ describe("Method chaining API", () => {
       const canEditAsAuthor = permissions
         .get("post")
         .can(regularUser)
-        .edit(authorPost);
+        .edit(authorPost)
+        .check();
       expect(canEditAsAuthor).toBe(true);
 
       // Non-author (targetUser) with public visibility
       const canEditPublic = permissions
         .get("post")
         .can(targetUser)
-        .edit(post, { visibility: "public" });
+        .edit(post, { visibility: "public" })
+        .check();
       expect(canEditPublic).toBe(true);
 
       // Non-author (targetUser) with private visibility should return false
       const canEditPrivate = permissions
         .get("post")
         .can(targetUser)
-        .edit(post, { visibility: "private" });
+        .edit(post, { visibility: "private" })
+        .check();
       expect(canEditPrivate).toBe(false);
 
       // Non-author (targetUser) without attributes should return false
-      const canEditNoAttrs = permissions.get("post").can(targetUser).edit(post);
+      const canEditNoAttrs = permissions
+        .get("post")
+        .can(targetUser)
+        .edit(post)
+        .check();
       expect(canEditNoAttrs).toBe(false);
     });
   });
 
   describe("Optional parameters", () => {
     it("should handle browse with no parameters", () => {
-      const adminCanBrowse = permissions.get("user").can(admin).browse();
+      const adminCanBrowse = permissions
+        .get("user")
+        .can(admin)
+        .browse()
+        .check();
       expect(adminCanBrowse).toBe(true);
 
-      const userCanBrowse = permissions.get("user").can(regularUser).browse();
+      const userCanBrowse = permissions
+        .get("user")
+        .can(regularUser)
+        .browse()
+        .check();
       expect(userCanBrowse).toBe(false);
     });
 
@@ -828,13 +1365,15 @@ describe("Method chaining API", () => {
       const canBrowseSelf = permissions
         .get("user")
         .can(regularUser)
-        .browse(regularUser);
+        .browse(regularUser)
+        .check();
       expect(canBrowseSelf).toBe(true);
 
       const canBrowseOther = permissions
         .get("user")
         .can(regularUser)
-        .browse(targetUser);
+        .browse(targetUser)
+        .check();
       expect(canBrowseOther).toBe(false);
     });
 
@@ -842,13 +1381,15 @@ describe("Method chaining API", () => {
       const canBrowsePublic = permissions
         .get("user")
         .can(regularUser)
-        .browse(undefined, { filter: "public" });
+        .browse(undefined, { filter: "public" })
+        .check();
       expect(canBrowsePublic).toBe(true);
 
       const canBrowsePrivate = permissions
         .get("user")
         .can(regularUser)
-        .browse(undefined, { filter: "private" });
+        .browse(undefined, { filter: "private" })
+        .check();
       expect(canBrowsePrivate).toBe(false);
     });
 
@@ -856,7 +1397,8 @@ describe("Method chaining API", () => {
       const canBrowse = permissions
         .get("user")
         .can(regularUser)
-        .browse(targetUser, { filter: "public" });
+        .browse(targetUser, { filter: "public" })
+        .check();
       expect(canBrowse).toBe(true);
     });
   });
@@ -891,15 +1433,124 @@ describe("Method chaining API", () => {
     });
   });
 
+  describe("Lazy checks with on() and with()", () => {
+    it("should supply attributes with with()", async () => {
+      const canSend = await permissions
+        .get("user")
+        .can(regularUser)
+        .sendMessage(message)
+        .with({ to: targetUser, friendsList: ["3"] });
+      expect(canSend).toBe(true);
+
+      const canEditPublic = permissions
+        .get("post")
+        .can(targetUser)
+        .edit(post)
+        .with({ visibility: "public" })
+        .check();
+      expect(canEditPublic).toBe(true);
+    });
+
+    it("should supply the entity with on()", () => {
+      const canEdit = permissions
+        .get("user")
+        .can(regularUser)
+        .edit()
+        .on(regularUser)
+        .check();
+      expect(canEdit).toBe(true);
+
+      const canSend = permissions
+        .get("user")
+        .can(regularUser)
+        .sendMessage()
+        .with({ to: targetUser, friendsList: [] })
+        .on(message)
+        .check();
+      expect(canSend).toBe(false);
+    });
+
+    it("should not evaluate until awaited or checked", async () => {
+      let calls = 0;
+      const lazyPermissions = createPermissions([
+        createPermissionDefinition("lazy", {
+          run: ({ actor }: { actor: User }) => {
+            calls++;
+            return actor.role === "admin";
+          },
+        }),
+      ]);
+
+      const pending = lazyPermissions.get("lazy").can(admin).run();
+      expect(calls).toBe(0);
+
+      expect(await pending).toBe(true);
+      expect(calls).toBe(1);
+
+      expect(pending.check()).toBe(true);
+      expect(calls).toBe(2);
+    });
+
+    it("should reject when an awaited handler throws", async () => {
+      const failingPermissions = createPermissions([
+        createPermissionDefinition("failing", {
+          run: ({ actor }: { actor: User }): boolean => {
+            throw new Error("boom");
+          },
+        }),
+      ]);
+
+      let error: unknown;
+      try {
+        await failingPermissions.get("failing").can(admin).run();
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error).message).toBe("boom");
+    });
+
+    it("should require every mandatory parameter before evaluating", () => {
+      const pending = permissions
+        .get("user")
+        .can(regularUser)
+        .sendMessage(message);
+
+      // @ts-expect-error - attributes are required for sendMessage
+      expect(() => pending.check()).toThrow();
+
+      const withoutEntity = permissions
+        .get("post")
+        .can(admin)
+        .edit()
+        .with({ visibility: "public" });
+
+      // @ts-expect-error - the entity is required for edit
+      expect(withoutEntity.check).toBeDefined();
+    });
+
+    it("should not await a check missing mandatory parameters", async () => {
+      const pending = permissions.get("user").can(regularUser);
+
+      let error: unknown;
+      try {
+        // @ts-expect-error - attributes are required for sendMessage
+        await pending.sendMessage(message);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(TypeError);
+    });
+  });
+
   describe("Complex chaining scenarios", () => {
     it("should handle multiple permission checks in sequence", async () => {
       const userActions = permissions.get("user").can(admin);
       const postActions = permissions.get("post").can(admin);
 
-      expect(userActions.view()).toBe(true);
-      expect(userActions.edit(targetUser)).toBe(true);
-      expect(postActions.create()).toBe(true);
-      expect(postActions.read(post)).toBe(true);
+      expect(userActions.view().check()).toBe(true);
+      expect(userActions.edit(targetUser).check()).toBe(true);
+      expect(postActions.create().check()).toBe(true);
+      expect(postActions.read(post).check()).toBe(true);
 
       const adminPost = { ...post, authorId: admin.id };
       const canDelete = await postActions.delete(adminPost);
@@ -910,12 +1561,12 @@ describe("Method chaining API", () => {
       const adminUserActions = permissions.get("user").can(admin);
       const regularUserActions = permissions.get("user").can(regularUser);
 
-      expect(adminUserActions.view()).toBe(true);
-      expect(regularUserActions.view()).toBe(false);
+      expect(adminUserActions.view().check()).toBe(true);
+      expect(regularUserActions.view().check()).toBe(false);
 
-      expect(adminUserActions.edit(targetUser)).toBe(true);
-      expect(regularUserActions.edit(targetUser)).toBe(false);
-      expect(regularUserActions.edit(regularUser)).toBe(true);
+      expect(adminUserActions.edit(targetUser).check()).toBe(true);
+      expect(regularUserActions.edit(targetUser).check()).toBe(false);
+      expect(regularUserActions.edit(regularUser).check()).toBe(true);
     });
 
     it("should demonstrate the example from the usage comment", () => {
@@ -938,7 +1589,8 @@ describe("Method chaining API", () => {
             },
             friendsList: ["2"],
           }
-        );
+        )
+        .check();
 
       expect(canMessage).toBe(true);
     });
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "user"; mfa: boolean };
+type Post = { id: string; authorId: string };
+
+describe("Action metadata", () => {
+  const admin: User = { id: "1", role: "admin", mfa: true };
+  const author: User = { id: "2", role: "user", mfa: false };
+  const post: Post = { id: "p1", authorId: "2" };
+
+  const edit = ({ actor, entity }: { actor: User; entity: Post }) =>
+    actor.id === entity.authorId;
+
+  const postDef = createPermissionDefinition("post", {
+    read: ({ actor }: { actor: User }) => !!actor,
+    edit: {
+      handler: edit,
+      description: "Change a post",
+      tags: ["content"],
+    },
+    delete: {
+      handler: ({ actor }: { actor: User; entity: Post }) =>
+        actor.role === "admin" && actor.mfa,
+      description: "Permanently delete a post",
+      riskLevel: "critical",
+      requiresMfa: true,
+      deprecated: "use archive",
+    },
+  });
+
+  it("should keep handlers as functions and metadata on the definition", () => {
+    expect(postDef.handlers.edit).toBe(edit);
+    expect(typeof postDef.handlers.delete).toBe("function");
+    expect(postDef.metadata).toEqual({
+      edit: { description: "Change a post", tags: ["content"] },
+      delete: {
+        description: "Permanently delete a post",
+        riskLevel: "critical",
+        requiresMfa: true,
+        deprecated: "use archive",
+      },
+    });
+    expect(
+      createPermissionDefinition("post", { read: postDef.handlers.read })
+    ).not.toHaveProperty("metadata");
+  });
+
+  it("should infer the same types as bare handlers", () => {
+    const permissions = createPermissions([postDef]);
+
+    const handler: (args: { actor: User; entity: Post }) => boolean =
+      postDef.handlers.edit;
+    expect(handler({ actor: author, entity: post })).toBe(true);
+
+    expect(permissions.get("post").can(author).edit(post).check()).toBe(true);
+    expect(
+      permissions.can("post", { actor: admin, entity: post }).delete()
+    ).toBe(true);
+    // @ts-expect-error - the entity is required for edit
+    expect(permissions.get("post").can(author).edit().check).toBeDefined();
+  });
+
+  it("should describe declared metadata", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(permissions.describe()[0]?.actions).toEqual([
+      { action: "read", tags: [], async: false },
+      {
+        action: "edit",
+        description: "Change a post",
+        tags: ["content"],
+        async: false,
+      },
+      {
+        action: "delete",
+        description: "Permanently delete a post",
+        tags: [],
+        riskLevel: "critical",
+        requiresMfa: true,
+        deprecated: "use archive",
+        async: false,
+      },
+    ]);
+  });
+
+  it("should record declared metadata in audit events", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], { audit: { sink } });
+
+    permissions.can("post", "read", { actor: author, entity: post });
+    permissions.can("post", "edit", { actor: author, entity: post });
+    permissions.can("post", "delete", { actor: author, entity: post });
+
+    expect(
+      sink.events.map(
+        ({ action, tags, riskLevel, requiresMfa, deprecated }) => ({
+          action,
+          tags,
+          riskLevel,
+          requiresMfa,
+          deprecated,
+        })
+      )
+    ).toEqual([
+      {
+        action: "read",
+        tags: undefined,
+        riskLevel: undefined,
+        requiresMfa: undefined,
+        deprecated: undefined,
+      },
+      {
+        action: "edit",
+        tags: ["content"],
+        riskLevel: undefined,
+        requiresMfa: undefined,
+        deprecated: undefined,
+      },
+      {
+        action: "delete",
+        tags: undefined,
+        riskLevel: "critical",
+        requiresMfa: true,
+        deprecated: "use archive",
+      },
+    ]);
+    expect(sink.events[1]).not.toHaveProperty("description");
+  });
+
+  it("should type handler specs from validators", () => {
+    const commentDef = createPermissionDefinition(
+      "comment",
+      {
+        delete: {
+          handler: ({ actor }) => actor.role === "admin",
+          riskLevel: "high",
+        },
+      },
+      {
+        validate: {
+          actor: (value: unknown) => value as User,
+        },
+      }
+    );
+    const permissions = createPermissions([commentDef]);
+
+    expect(permissions.can("comment", "delete", { actor: admin })).toBe(true);
+    expect(commentDef.metadata).toEqual({ delete: { riskLevel: "high" } });
+  });
+});
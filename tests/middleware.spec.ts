@@ -0,0 +1,124 @@
+import { describe, it, expect } from "bun:test";
+import {
+  allow,
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+  type Middleware,
+} from "../src/index";
+
+type User = {
+  id: string;
+  role: "super-admin" | "admin" | "user";
+  banned?: boolean;
+};
+type Post = { id: string; authorId: string };
+
+describe("Middleware", () => {
+  const superAdmin: User = { id: "root", role: "super-admin" };
+  const user: User = { id: "2", role: "user" };
+  const banned: User = { id: "3", role: "user", banned: true };
+  const post: Post = { id: "post1", authorId: "3" };
+
+  const postDef = createPermissionDefinition("post", {
+    create: ({ actor }: { actor: User }) => actor.role === "admin",
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.id === entity.authorId,
+  });
+
+  const superAdminRule: Middleware = ({ ctx, next }) =>
+    ctx.actor.role === "super-admin" ? allow("super admin") : next();
+
+  const bannedRule: Middleware = ({ ctx, next }) =>
+    ctx.actor.banned ? deny("account banned", "BANNED") : next();
+
+  it("should short-circuit on every invocation path", async () => {
+    const permissions = createPermissions([postDef]).use(superAdminRule);
+
+    expect(
+      permissions.can("post", "create", { actor: superAdmin, entity: post })
+    ).toBe(true);
+    expect(
+      permissions.can("post", { actor: superAdmin, entity: post }).edit()
+    ).toBe(true);
+    expect(permissions.get("post").can(superAdmin).edit(post).check()).toBe(
+      true
+    );
+    expect(
+      await permissions.explain("post", "create", {
+        actor: superAdmin,
+        entity: post,
+      })
+    ).toMatchObject({ allowed: true, reason: "super admin" });
+
+    expect(
+      permissions.can("post", "create", { actor: user, entity: post })
+    ).toBe(false);
+  });
+
+  it("should run middleware in registration order", () => {
+    const permissions = createPermissions([postDef], {
+      middleware: [bannedRule],
+    }).use(superAdminRule);
+
+    expect(
+      permissions.explain("post", "edit", { actor: banned, entity: post })
+    ).toMatchObject({ allowed: false, code: "BANNED" });
+    expect(
+      permissions.can("post", "edit", {
+        actor: { ...superAdmin, banned: true },
+        entity: post,
+      })
+    ).toBe(false);
+  });
+
+  it("should let middleware transform the context", () => {
+    const permissions = createPermissions([postDef]).use(({ ctx, next }) =>
+      next({ ...ctx, actor: { ...ctx.actor, id: "3" } })
+    );
+
+    expect(permissions.can("post", "edit", { actor: user, entity: post })).toBe(
+      true
+    );
+  });
+
+  it("should let middleware observe results, including async ones", async () => {
+    const seen: string[] = [];
+    const asyncDef = createPermissionDefinition("report", {
+      view: async ({ actor }: { actor: User }) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return actor.role === "admin";
+      },
+    });
+    const permissions = createPermissions([postDef, asyncDef]).use(
+      async ({ resource, action, next }) => {
+        const result = await next();
+        seen.push(`${resource}.${action}=${result}`);
+        return result;
+      }
+    );
+
+    await permissions.can("post", "create", { actor: user, entity: post });
+    await permissions.get("report").can(user).view();
+
+    expect(seen).toEqual(["post.create=false", "report.view=false"]);
+  });
+
+  it("should stay synchronous when middleware and handlers are synchronous", () => {
+    const permissions = createPermissions([postDef]).use(({ next }) => next());
+
+    expect(
+      permissions.can("post", "create", { actor: user, entity: post })
+    ).toBe(false);
+  });
+
+  it("should be shared with scopes", () => {
+    const permissions = createPermissions([postDef]);
+    const scoped = permissions.scope();
+    permissions.use(superAdminRule);
+
+    expect(
+      scoped.can("post", "create", { actor: superAdmin, entity: post })
+    ).toBe(true);
+  });
+});
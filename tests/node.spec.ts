@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Node resolves ESM specifiers literally, unlike Bun and bundlers, so the
+// built package must load without them
+describe.skipIf(!Bun.which("node"))("Built package in Node", () => {
+  let outDir: string;
+
+  beforeAll(() => {
+    outDir = mkdtempSync(join(tmpdir(), "access-mini-"));
+    const build = Bun.spawnSync([
+      "bunx",
+      "tsc",
+      "-p",
+      "tsconfig.build.json",
+      "--outDir",
+      outDir,
+      "--declaration",
+      "false",
+    ]);
+    expect(build.stdout.toString()).toBe("");
+    writeFileSync(join(outDir, "package.json"), '{ "type": "module" }');
+  });
+
+  afterAll(() => rmSync(outDir, { recursive: true, force: true }));
+
+  function node(script: string) {
+    const run = Bun.spawnSync(["node", "--input-type=module", "-e", script], {
+      cwd: outDir,
+    });
+    return { stdout: run.stdout.toString(), stderr: run.stderr.toString() };
+  }
+
+  it("should import every entry point", () => {
+    const { stdout, stderr } = node(`
+      const { createPermissions } = await import("./index.js");
+      const { createPermissionMiddleware } = await import("./http.js");
+      console.log(typeof createPermissions, typeof createPermissionMiddleware);
+    `);
+
+    expect(stderr).toBe("");
+    expect(stdout.trim()).toBe("function function");
+  });
+
+  it("should check permissions", () => {
+    const { stdout, stderr } = node(`
+      import { createPermissionDefinition, createPermissions } from "./index.js";
+      const post = createPermissionDefinition("post", {
+        edit: ({ actor, entity }) => actor.id === entity.authorId,
+      });
+      const permissions = createPermissions([post]);
+      console.log(permissions.can("post", "edit", {
+        actor: { id: "1" },
+        entity: { authorId: "1" },
+      }));
+    `);
+
+    expect(stderr).toBe("");
+    expect(stdout.trim()).toBe("true");
+  });
+});
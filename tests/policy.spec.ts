@@ -0,0 +1,268 @@
+import { describe, it, expect } from "bun:test";
+import {
+  compilePolicy,
+  conditionOf,
+  createPermissions,
+  evaluateCondition,
+  PolicyValidationError,
+  validatePolicy,
+  type Condition,
+} from "../src/index";
+
+type User = {
+  id: string;
+  role: "admin" | "editor" | "viewer";
+  department: string;
+  clearance: number;
+  groups: string[];
+};
+
+type Document = {
+  id: string;
+  authorId: string;
+  department: string;
+  classification: "public" | "internal" | "secret";
+  requiredClearance: number;
+  tags: string[];
+  reviewer?: string | null;
+};
+
+describe("Declarative policies", () => {
+  const admin: User = {
+    id: "u1",
+    role: "admin",
+    department: "IT",
+    clearance: 5,
+    groups: ["ops"],
+  };
+  const editor: User = {
+    id: "u2",
+    role: "editor",
+    department: "HR",
+    clearance: 2,
+    groups: ["writers"],
+  };
+
+  const doc: Document = {
+    id: "d1",
+    authorId: "u2",
+    department: "HR",
+    classification: "internal",
+    requiredClearance: 3,
+    tags: ["draft", "hr"],
+  };
+
+  const policy = {
+    resource: "document",
+    actions: {
+      read: {
+        or: [
+          { eq: ["entity.classification", "public"] },
+          { eq: ["actor.department", { ref: "entity.department" }] },
+          { gte: ["actor.clearance", { ref: "entity.requiredClearance" }] },
+        ],
+      },
+      edit: {
+        and: [
+          { in: ["actor.role", ["admin", "editor"]] },
+          { eq: ["actor.id", { ref: "entity.authorId" }] },
+          { not: { contains: ["entity.tags", "locked"] } },
+        ],
+      },
+      approve: {
+        and: [
+          { exists: "entity.reviewer" },
+          { ne: ["entity.reviewer", { ref: "actor.id" }] },
+          { eq: ["attributes.confirmed", true] },
+        ],
+      },
+      purge: { eq: ["actor.role", "admin"] },
+      view: true,
+    },
+  } as const;
+
+  const documentDef = compilePolicy(policy);
+  const permissions = createPermissions([documentDef]);
+
+  it("should compile into a usable permission definition", () => {
+    expect(documentDef.resource).toBe("document");
+    expect(Object.keys(documentDef.handlers)).toEqual([
+      "read",
+      "edit",
+      "approve",
+      "purge",
+      "view",
+    ]);
+
+    expect(
+      permissions.can("document", "read", { actor: editor, entity: doc })
+    ).toBe(true);
+    expect(
+      permissions.can("document", "read", {
+        actor: { ...admin, clearance: 1 },
+        entity: doc,
+      })
+    ).toBe(false);
+    expect(
+      permissions.can("document", "read", { actor: admin, entity: doc })
+    ).toBe(true);
+  });
+
+  it("should support logical operators and references", () => {
+    expect(
+      permissions.can("document", "edit", { actor: editor, entity: doc })
+    ).toBe(true);
+    expect(
+      permissions.can("document", "edit", { actor: admin, entity: doc })
+    ).toBe(false);
+    expect(
+      permissions.can("document", "edit", {
+        actor: editor,
+        entity: { ...doc, tags: ["locked"] },
+      })
+    ).toBe(false);
+  });
+
+  it("should check existence and attributes", () => {
+    const reviewed = { ...doc, reviewer: "u1" };
+
+    expect(
+      permissions.can("document", "approve", {
+        actor: editor,
+        entity: reviewed,
+        attributes: { confirmed: true },
+      })
+    ).toBe(true);
+    expect(
+      permissions.can("document", "approve", {
+        actor: admin,
+        entity: reviewed,
+        attributes: { confirmed: true },
+      })
+    ).toBe(false);
+    expect(
+      permissions.can("document", "approve", {
+        actor: editor,
+        entity: { ...doc, reviewer: null },
+        attributes: { confirmed: true },
+      })
+    ).toBe(false);
+    expect(
+      permissions.can("document", "approve", {
+        actor: editor,
+        entity: reviewed,
+      })
+    ).toBe(false);
+  });
+
+  it("should accept JSON source", () => {
+    const def = compilePolicy<"document", "purge" | "view">(
+      JSON.stringify(policy)
+    );
+    const fromJson = createPermissions([def]);
+
+    expect(
+      fromJson.can("document", "purge", { actor: admin, entity: doc })
+    ).toBe(true);
+    expect(
+      fromJson.can("document", "view", { actor: editor, entity: doc })
+    ).toBe(true);
+  });
+
+  it("should expose the condition behind a compiled handler", () => {
+    expect(conditionOf(documentDef.handlers.purge)).toEqual({
+      eq: ["actor.role", "admin"],
+    });
+    expect(conditionOf(() => true)).toBeUndefined();
+  });
+
+  describe("comparisons", () => {
+    const cases: [Condition, boolean][] = [
+      [{ gt: ["actor.clearance", 1] }, true],
+      [{ lt: ["actor.clearance", 1] }, false],
+      [{ lte: ["actor.clearance", 2] }, true],
+      [{ gt: ["actor.department", "A"] }, true],
+      [{ gt: ["actor.department", 1] }, false],
+      [{ contains: ["actor.groups", "writers"] }, true],
+      [{ contains: ["actor.department", "R"] }, true],
+      [{ in: ["actor.role", { ref: "attributes.roles" }] }, true],
+      [{ exists: "actor.missing.deeply" }, false],
+      [{ eq: ["actor.missing", null] }, false],
+    ];
+
+    for (const [condition, expected] of cases) {
+      it(`should evaluate ${JSON.stringify(condition)}`, () => {
+        expect(
+          evaluateCondition(condition, {
+            actor: editor,
+            attributes: { roles: ["editor"] },
+          })
+        ).toBe(expected);
+      });
+    }
+  });
+
+  describe("validation", () => {
+    function issuesOf(policy: unknown) {
+      try {
+        compilePolicy(policy as any);
+      } catch (error) {
+        expect(error).toBeInstanceOf(PolicyValidationError);
+        return (error as PolicyValidationError).issues;
+      }
+      throw new Error("expected the policy to be rejected");
+    }
+
+    it("should point at the offending JSON path", () => {
+      expect(
+        issuesOf({
+          resource: "document",
+          actions: {
+            read: { or: [{ eq: ["actor.id", "1"] }, { eq: ["user.id", "1"] }] },
+          },
+        })
+      ).toEqual([
+        {
+          path: "$.actions.read.or[1].eq[0]",
+          message:
+            "Expected a path starting with 'actor', 'entity' or 'attributes'",
+        },
+      ]);
+    });
+
+    it("should report every issue", () => {
+      const issues = issuesOf({
+        resource: "",
+        actions: {
+          read: { matches: ["actor.id", "1"] },
+          edit: { eq: ["actor.id", ["1"]] },
+          share: { in: ["actor.id", "1"] },
+          purge: { eq: ["actor.id", { nested: true }] },
+          view: { and: { eq: ["actor.id", "1"] } },
+          list: { eq: ["actor.id", "1"], ne: ["actor.id", "2"] },
+        },
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        "$.resource",
+        "$.actions.read.matches",
+        "$.actions.edit.eq[1]",
+        "$.actions.share.in[1]",
+        "$.actions.purge.eq[1]",
+        "$.actions.view.and",
+        "$.actions.list",
+      ]);
+    });
+
+    it("should reject malformed JSON", () => {
+      expect(issuesOf("{ not json")[0]!.path).toBe("$");
+    });
+
+    it("should validate without compiling", () => {
+      expect(validatePolicy(policy)).toEqual([]);
+      expect(validatePolicy(null)).toEqual([
+        { path: "$", message: "Expected a policy object" },
+      ]);
+    });
+  });
+});
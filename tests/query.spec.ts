@@ -0,0 +1,372 @@
+import { describe, it, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  compilePolicy,
+  conditionHandler,
+  createPermissionDefinition,
+  createPermissions,
+  forbid,
+  matchesQuery,
+  QueryCompileError,
+  toMongo,
+  type QueryNode,
+  toSql,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "user"; teams: string[] };
+type Post = {
+  id: string;
+  authorId: string;
+  status: "draft" | "published" | "archived" | null;
+  team: string | null;
+  views: number;
+};
+
+describe("Query generation", () => {
+  const admin: User = { id: "1", role: "admin", teams: [] };
+  const author: User = { id: "2", role: "user", teams: ["red"] };
+
+  const posts: Post[] = [
+    { id: "p1", authorId: "2", status: "draft", team: null, views: 0 },
+    { id: "p2", authorId: "3", status: "published", team: "red", views: 10 },
+    { id: "p3", authorId: "3", status: "archived", team: "red", views: 50 },
+    { id: "p4", authorId: "3", status: null, team: "blue", views: 5 },
+    { id: "p5", authorId: "2", status: "archived", team: "blue", views: 100 },
+  ];
+
+  const postDef = compilePolicy<"post", "read" | "edit" | "feature">({
+    resource: "post",
+    actions: {
+      read: {
+        or: [
+          { eq: ["actor.role", "admin"] },
+          { eq: ["entity.status", "published"] },
+          { eq: ["actor.id", { ref: "entity.authorId" }] },
+          { contains: ["actor.teams", { ref: "entity.team" }] },
+        ],
+      },
+      edit: {
+        and: [
+          { eq: ["entity.authorId", { ref: "actor.id" }] },
+          { ne: ["entity.status", "archived"] },
+        ],
+      },
+      feature: {
+        and: [
+          { gte: ["entity.views", { ref: "attributes.minViews" }] },
+          { in: ["entity.status", ["published", "archived"]] },
+        ],
+      },
+    },
+  });
+
+  it("should substitute the actor and fold known branches", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(permissions.toQuery("post", "read", admin)).toEqual({
+      type: "literal",
+      value: true,
+    });
+    expect(permissions.toQuery("post", "read", author)).toEqual({
+      type: "or",
+      nodes: [
+        {
+          type: "compare",
+          operator: "eq",
+          field: "status",
+          value: "published",
+        },
+        { type: "compare", operator: "eq", field: "authorId", value: "2" },
+        { type: "compare", operator: "in", field: "team", value: ["red"] },
+      ],
+    });
+  });
+
+  it("should render parameterized SQL", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(toSql(permissions.toQuery("post", "read", author))).toEqual({
+      sql: '("status" = ? OR "authorId" = ? OR "team" IN (?))',
+      params: ["published", "2", "red"],
+    });
+    expect(
+      toSql(permissions.toQuery("post", "edit", author), {
+        placeholder: (index) => `$${index}`,
+        column: (field) => `p.${field}`,
+      })
+    ).toEqual({
+      sql: "(p.authorId = $1 AND (p.status <> $2 OR p.status IS NULL))",
+      params: ["2", "archived"],
+    });
+    expect(toSql(permissions.toQuery("post", "read", admin))).toEqual({
+      sql: "1 = 1",
+      params: [],
+    });
+  });
+
+  it("should render MongoDB filters", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(toMongo(permissions.toQuery("post", "read", author))).toEqual({
+      $or: [
+        { status: { $eq: "published" } },
+        { authorId: { $eq: "2" } },
+        { team: { $in: ["red"] } },
+      ],
+    });
+    expect(
+      toMongo(
+        permissions.toQuery("post", "feature", author, {
+          attributes: { minViews: 10 },
+        })
+      )
+    ).toEqual({
+      $and: [
+        { views: { $gte: 10 } },
+        { status: { $in: ["published", "archived"] } },
+      ],
+    });
+  });
+
+  it("should select the same entities as the handler", () => {
+    const permissions = createPermissions([postDef]);
+    const db = new Database(":memory:");
+    db.run(
+      "CREATE TABLE posts (id TEXT, authorId TEXT, status TEXT, team TEXT, views INTEGER)"
+    );
+    const insert = db.prepare("INSERT INTO posts VALUES (?, ?, ?, ?, ?)");
+    for (const post of posts) {
+      insert.run(post.id, post.authorId, post.status, post.team, post.views);
+    }
+
+    const checks = [
+      ["read", admin],
+      ["read", author],
+      ["edit", author],
+      ["feature", author],
+    ] as const;
+    for (const [action, actor] of checks) {
+      const attributes = { minViews: 10 };
+      const query = permissions.toQuery("post", action, actor, { attributes });
+      const allowed = posts
+        .filter((entity) =>
+          permissions.can("post", action, { actor, entity, attributes })
+        )
+        .map((post) => post.id);
+
+      expect(
+        posts.filter((post) => matchesQuery(query, post)).map((p) => p.id)
+      ).toEqual(allowed);
+
+      const { sql, params } = toSql(query);
+      const rows = db
+        .query(`SELECT id FROM posts WHERE ${sql} ORDER BY id`)
+        .all(...(params as string[])) as { id: string }[];
+      expect(rows.map((row) => row.id)).toEqual(allowed);
+    }
+    db.close();
+  });
+
+  describe("renderer parity", () => {
+    type Row = { id: string; status?: string | null; views?: number | null };
+    const rows: Row[] = [
+      { id: "r1", status: "draft", views: 0 },
+      { id: "r2", status: "published", views: 10 },
+      { id: "r3", status: null, views: 50 },
+      { id: "r4", status: "archived", views: null },
+      { id: "r5", status: null, views: null },
+    ];
+    // Only MongoDB tells missing fields from null ones
+    const documents: Row[] = [...rows, { id: "r6" }, { id: "r7", views: 5 }];
+
+    const status = (
+      operator: "eq" | "ne" | "in" | "contains",
+      value: string | null | (string | null)[]
+    ): QueryNode => ({ type: "compare", operator, field: "status", value });
+    const views = (
+      operator: "gt" | "gte" | "lt" | "lte",
+      value: number
+    ): QueryNode => ({
+      type: "compare",
+      operator,
+      field: "views",
+      value,
+    });
+    const not = (node: QueryNode): QueryNode => ({ type: "not", node });
+    const queries: QueryNode[] = [
+      status("eq", null),
+      status("ne", null),
+      status("in", ["draft", null]),
+      not(status("eq", "draft")),
+      not(views("gt", 5)),
+      not({ type: "exists", field: "views" }),
+      not({
+        type: "or",
+        nodes: [views("gt", 20), status("eq", "published")],
+      }),
+      not({
+        type: "and",
+        nodes: [not(views("lte", 10)), status("ne", "archived")],
+      }),
+      not(status("in", ["published", null])),
+      { type: "and", nodes: [status("ne", null), not(views("gt", 5))] },
+      not({ type: "or", nodes: [views("lt", 5), views("gte", 50)] }),
+      not(status("contains", "ar")),
+      not(status("in", [])),
+      not({ type: "literal", value: false }),
+    ];
+
+    // MongoDB's matching of the operators toMongo() renders: `null` also
+    // matches missing fields, and comparisons only match values of one type
+    function matchesMongo(filter: Record<string, unknown>, doc: Row): boolean {
+      return Object.entries(filter).every(([key, condition]) => {
+        if (key === "$and") {
+          return (condition as any[]).every((f) => matchesMongo(f, doc));
+        }
+        if (key === "$or") {
+          return (condition as any[]).some((f) => matchesMongo(f, doc));
+        }
+        if (key === "$nor") {
+          return !(condition as any[]).some((f) => matchesMongo(f, doc));
+        }
+        if (key === "$expr") return condition as boolean;
+        return matchesOperators(
+          condition as Record<string, unknown>,
+          (doc as Record<string, unknown>)[key]
+        );
+      });
+    }
+
+    function matchesOperators(
+      operators: Record<string, unknown>,
+      value: unknown
+    ): boolean {
+      const equals = (expected: unknown) =>
+        expected === null ? value == null : value === expected;
+      const ordered = (expected: unknown) =>
+        typeof value === typeof expected &&
+        value !== null &&
+        value !== undefined;
+      return Object.entries(operators).every(([operator, expected]: any) => {
+        switch (operator) {
+          case "$eq":
+            return equals(expected);
+          case "$ne":
+            return !equals(expected);
+          case "$in":
+            return expected.some(equals);
+          case "$gt":
+            return ordered(expected) && (value as any) > expected;
+          case "$gte":
+            return ordered(expected) && (value as any) >= expected;
+          case "$lt":
+            return ordered(expected) && (value as any) < expected;
+          case "$lte":
+            return ordered(expected) && (value as any) <= expected;
+          case "$regex":
+            return (
+              typeof value === "string" && new RegExp(expected).test(value)
+            );
+          case "$type":
+            return expected === "null" && value === null;
+          case "$not":
+            return !matchesOperators(expected, value);
+          default:
+            throw new Error(`Unsupported operator ${operator}`);
+        }
+      });
+    }
+
+    it("should select the same rows in SQL as in memory", () => {
+      const db = new Database(":memory:");
+      db.run("CREATE TABLE rows (id TEXT, status TEXT, views INTEGER)");
+      const insert = db.prepare("INSERT INTO rows VALUES (?, ?, ?)");
+      for (const row of rows) {
+        insert.run(row.id, row.status ?? null, row.views ?? null);
+      }
+
+      for (const query of queries) {
+        const { sql, params } = toSql(query);
+        const selected = db
+          .query(`SELECT id FROM rows WHERE ${sql} ORDER BY id`)
+          .all(...(params as string[])) as { id: string }[];
+        expect({ query, ids: selected.map((row) => row.id) }).toEqual({
+          query,
+          ids: rows.filter((row) => matchesQuery(query, row)).map((r) => r.id),
+        });
+      }
+      db.close();
+    });
+
+    it("should select the same documents in MongoDB as in memory", () => {
+      for (const query of queries) {
+        const filter = toMongo(query);
+        expect({
+          query,
+          ids: documents
+            .filter((doc) => matchesMongo(filter, doc))
+            .map((d) => d.id),
+        }).toEqual({
+          query,
+          ids: documents
+            .filter((doc) => matchesQuery(query, doc))
+            .map((d) => d.id),
+        });
+      }
+    });
+
+    it("should render null comparisons by type in MongoDB", () => {
+      expect(toMongo(status("eq", null))).toEqual({
+        status: { $type: "null" },
+      });
+      expect(toMongo(status("ne", null))).toEqual({
+        status: { $not: { $type: "null" } },
+      });
+      expect(toMongo(status("in", ["draft", null]))).toEqual({
+        $or: [{ status: { $in: ["draft"] } }, { status: { $type: "null" } }],
+      });
+    });
+  });
+
+  it("should compile handlers created with conditionHandler()", () => {
+    const commentDef = createPermissionDefinition("comment", {
+      delete: conditionHandler({
+        not: { exists: "entity.deletedAt" },
+      }),
+    });
+    const permissions = createPermissions([commentDef]);
+    const query = permissions.toQuery("comment", "delete", author);
+
+    expect(query).toEqual({
+      type: "not",
+      node: { type: "exists", field: "deletedAt" },
+    });
+    expect(toSql(query).sql).toBe(
+      'NOT (COALESCE("deletedAt" IS NOT NULL, FALSE))'
+    );
+    expect(toMongo(query)).toEqual({ $nor: [{ deletedAt: { $ne: null } }] });
+  });
+
+  it("should refuse conditions it cannot compile", () => {
+    const mixedDef = createPermissionDefinition("post", {
+      read: ({ actor }: { actor: User; entity: Post }) => !!actor,
+      review: conditionHandler({
+        eq: ["entity.authorId", { ref: "entity.id" }],
+      }),
+      edit: postDef.handlers.edit,
+    });
+    const permissions = createPermissions([mixedDef], {
+      rules: [forbid(() => true, { actions: ["edit"] })],
+    });
+
+    expect(() => permissions.toQuery("post", "read", author)).toThrow(
+      QueryCompileError
+    );
+    expect(() => permissions.toQuery("post", "review", author)).toThrow(
+      "Cannot compare entity fields 'authorId' and 'id' in a query"
+    );
+    expect(() => permissions.toQuery("post", "edit", author)).toThrow(
+      QueryCompileError
+    );
+  });
+});
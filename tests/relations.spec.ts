@@ -0,0 +1,212 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryTupleStore,
+  createPermissionDefinition,
+  createPermissions,
+  createRelations,
+  formatTuple,
+  parseTuple,
+  RelationDepthError,
+  type RelationSchema,
+  type TupleStore,
+} from "../src/index";
+
+type User = { id: string };
+type Document = { type: "document"; id: string };
+
+describe("Relations", () => {
+  const alice: User = { id: "alice" };
+  const bob: User = { id: "bob" };
+  const carol: User = { id: "carol" };
+  const readme: Document = { type: "document", id: "readme" };
+
+  const schema: RelationSchema = {
+    folder: {
+      viewer: { union: ["direct", { computed: "owner" }] },
+    },
+    document: {
+      owner: {
+        union: [
+          "direct",
+          { tupleToUserset: { tupleset: "parent", relation: "owner" } },
+        ],
+      },
+      viewer: {
+        union: [
+          "direct",
+          { computed: "owner" },
+          { tupleToUserset: { tupleset: "parent", relation: "viewer" } },
+        ],
+      },
+      publisher: {
+        intersection: [{ computed: "owner" }, { computed: "reviewer" }],
+      },
+    },
+  };
+
+  const tuples = [
+    "team:eng#member@user:alice",
+    "folder:docs#owner@team:eng#member",
+    "folder:docs#viewer@user:bob",
+    "document:readme#parent@folder:docs",
+  ];
+
+  it("should follow usersets and tuple-to-userset rewrites", () => {
+    const relations = createRelations({
+      store: createMemoryTupleStore(tuples),
+      schema,
+    });
+
+    expect(relations.check("document:readme", "owner", "user:alice")).toBe(
+      true
+    );
+    expect(relations.check("document:readme", "viewer", "user:alice")).toBe(
+      true
+    );
+    expect(relations.check("document:readme", "viewer", "user:bob")).toBe(true);
+    expect(relations.check("document:readme", "owner", "user:bob")).toBe(false);
+    expect(relations.check("document:readme", "viewer", "user:carol")).toBe(
+      false
+    );
+  });
+
+  it("should match userset subjects directly", () => {
+    const relations = createRelations({
+      store: createMemoryTupleStore(tuples),
+    });
+
+    expect(relations.check("folder:docs", "owner", "team:eng#member")).toBe(
+      true
+    );
+  });
+
+  it("should require every branch of an intersection", () => {
+    const store = createMemoryTupleStore(tuples);
+    const relations = createRelations({ store, schema });
+
+    expect(relations.check("document:readme", "publisher", "user:alice")).toBe(
+      false
+    );
+    store.write("document:readme#reviewer@user:alice");
+    expect(relations.check("document:readme", "publisher", "user:alice")).toBe(
+      true
+    );
+  });
+
+  it("should provide handlers for permission definitions", async () => {
+    const { relation } = createRelations({
+      store: createMemoryTupleStore(tuples),
+      schema,
+    });
+    const documentDef = createPermissionDefinition("document", {
+      read: relation<User, Document>("viewer"),
+      delete: relation<User, Document>("owner"),
+    });
+    const permissions = createPermissions([documentDef]);
+
+    expect(
+      permissions.can("document", "read", { actor: bob, entity: readme })
+    ).toBe(true);
+    expect(
+      permissions.can("document", "delete", { actor: bob, entity: readme })
+    ).toBe(false);
+    expect(await permissions.get("document").can(alice).delete(readme)).toBe(
+      true
+    );
+    expect(
+      permissions.can("document", "read", { actor: carol, entity: readme })
+    ).toBe(false);
+  });
+
+  it("should use custom object and subject references", () => {
+    const { relation } = createRelations({
+      store: createMemoryTupleStore(["document:readme#viewer@account:bob"]),
+      objectOf: (entity: { slug: string }) => `document:${entity.slug}`,
+      subjectOf: (actor: User) => `account:${actor.id}`,
+    });
+
+    expect(relation("viewer")({ actor: bob, entity: { slug: "readme" } })).toBe(
+      true
+    );
+  });
+
+  it("should terminate on cyclic data", () => {
+    const relations = createRelations({
+      store: createMemoryTupleStore([
+        "team:a#member@team:b#member",
+        "team:b#member@team:a#member",
+        "team:b#member@user:alice",
+      ]),
+    });
+
+    expect(relations.check("team:a", "member", "user:alice")).toBe(true);
+    expect(relations.check("team:a", "member", "user:bob")).toBe(false);
+  });
+
+  it("should fail when a check exceeds the depth limit", () => {
+    const chain = Array.from(
+      { length: 5 },
+      (_, i) => `team:${i}#member@team:${i + 1}#member`
+    );
+    const relations = createRelations({
+      store: createMemoryTupleStore([...chain, "team:5#member@user:alice"]),
+      maxDepth: 3,
+    });
+
+    expect(() => relations.check("team:0", "member", "user:alice")).toThrow(
+      RelationDepthError
+    );
+    expect(() =>
+      relations.check("team:2", "member", "user:alice")
+    ).not.toThrow();
+  });
+
+  it("should work with asynchronous stores", async () => {
+    const memory = createMemoryTupleStore(tuples);
+    const reads: string[] = [];
+    const store: TupleStore = {
+      async read(object, relation) {
+        reads.push(`${object}#${relation}`);
+        return memory.read(object, relation);
+      },
+    };
+    const relations = createRelations({ store, schema });
+
+    const result = relations.check("document:readme", "viewer", "user:alice");
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toBe(true);
+    // The first matching branch ends the search
+    expect(reads).not.toContain("folder:docs#viewer");
+  });
+
+  describe("tuples", () => {
+    it("should parse and format tuples", () => {
+      const tuple = parseTuple("document:readme#viewer@team:eng#member");
+
+      expect(tuple).toEqual({
+        object: "document:readme",
+        relation: "viewer",
+        subject: "team:eng#member",
+      });
+      expect(formatTuple(tuple)).toBe("document:readme#viewer@team:eng#member");
+      expect(() => parseTuple("document#viewer@alice")).toThrow(
+        "Invalid relation tuple: 'document#viewer@alice'"
+      );
+    });
+
+    it("should write and delete tuples in memory", () => {
+      const store = createMemoryTupleStore(["folder:docs#owner@user:alice"]);
+      store.write({
+        object: "folder:docs",
+        relation: "owner",
+        subject: "user:bob",
+      });
+      store.delete("folder:docs#owner@user:alice");
+
+      expect(store.read("folder:docs", "owner")).toEqual(["user:bob"]);
+      expect(store.tuples().map(formatTuple)).toEqual([
+        "folder:docs#owner@user:bob",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect } from "bun:test";
+import {
+  compilePolicy,
+  conditionHandler,
+  createPermissionDefinition,
+  createPermissions,
+  evaluateCondition,
+  QueryCompileError,
+  residualCondition,
+  type Condition,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "user"; department: string };
+type Document = {
+  id: string;
+  classification: "public" | "internal" | "restricted";
+  department: string;
+  approvers: string[];
+};
+
+describe("Residual conditions", () => {
+  const admin: User = { id: "1", role: "admin", department: "it" };
+  const user: User = { id: "2", role: "user", department: "sales" };
+
+  const documentDef = compilePolicy<"document", "read" | "delete">({
+    resource: "document",
+    actions: {
+      read: {
+        or: [
+          { eq: ["actor.role", "admin"] },
+          { eq: ["entity.classification", "public"] },
+          {
+            and: [
+              { eq: ["entity.classification", "internal"] },
+              { eq: ["actor.department", { ref: "entity.department" }] },
+            ],
+          },
+          {
+            and: [
+              { in: ["actor.id", { ref: "entity.approvers" }] },
+              { eq: ["attributes.approved", true] },
+            ],
+          },
+        ],
+      },
+      delete: { eq: ["actor.role", "admin"] },
+    },
+  });
+
+  it("should return constants when the actor decides the check", () => {
+    const permissions = createPermissions([documentDef]);
+
+    expect(permissions.residual("document", "read", { actor: admin })).toBe(
+      true
+    );
+    expect(permissions.residual("document", "delete", { actor: user })).toBe(
+      false
+    );
+  });
+
+  it("should leave the condition over the entity and attributes", () => {
+    const permissions = createPermissions([documentDef]);
+
+    expect(permissions.residual("document", "read", { actor: user })).toEqual({
+      or: [
+        { eq: ["entity.classification", "public"] },
+        {
+          and: [
+            { eq: ["entity.classification", "internal"] },
+            { eq: ["entity.department", "sales"] },
+          ],
+        },
+        {
+          and: [
+            { contains: ["entity.approvers", "2"] },
+            { eq: ["attributes.approved", true] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should substitute whatever else is known", () => {
+    const permissions = createPermissions([documentDef]);
+    const restricted: Document = {
+      id: "d1",
+      classification: "restricted",
+      department: "sales",
+      approvers: ["2"],
+    };
+
+    expect(
+      permissions.residual("document", "read", {
+        actor: user,
+        entity: restricted,
+      })
+    ).toEqual({ eq: ["attributes.approved", true] });
+    expect(
+      permissions.residual("document", "read", {
+        actor: user,
+        entity: { ...restricted, approvers: [] },
+      })
+    ).toBe(false);
+  });
+
+  it("should agree with the handler once the rest is known", () => {
+    const permissions = createPermissions([documentDef]);
+    const condition = permissions.residual("document", "read", { actor: user });
+    const documents: Document[] = [
+      { id: "1", classification: "public", department: "it", approvers: [] },
+      { id: "2", classification: "internal", department: "it", approvers: [] },
+      {
+        id: "3",
+        classification: "internal",
+        department: "sales",
+        approvers: [],
+      },
+      {
+        id: "4",
+        classification: "restricted",
+        department: "it",
+        approvers: ["2"],
+      },
+    ];
+
+    for (const entity of documents) {
+      for (const approved of [true, false]) {
+        const args = { actor: user, entity, attributes: { approved } };
+        expect(evaluateCondition(condition, args)).toBe(
+          permissions.can("document", "read", args) as boolean
+        );
+      }
+    }
+  });
+
+  it("should agree with the handler for any known values", () => {
+    // A seeded generator, so failures reproduce
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed / 2 ** 31;
+    };
+    const pick = <T>(values: readonly T[]) =>
+      values[Math.floor(random() * values.length)]!;
+
+    // Scalar fields compare with each other, list fields hold scalars
+    const scalars = [undefined, null, 0, 1, "a", "b", "ab", true];
+    const lists = [undefined, null, [], ["a", null], [1, undefined], ["b", 0]];
+    const scalarPaths = ["actor.a", "actor.b", "entity.x", "entity.y"];
+    const listPaths = ["actor.list", "entity.list"];
+    const operators = ["eq", "ne", "gt", "gte", "lt", "lte"];
+
+    const record = (keys: string[]) => {
+      const result: Record<string, unknown> = {};
+      for (const key of keys) {
+        const value = key === "list" ? pick(lists) : pick(scalars);
+        if (random() < 0.8) result[key] = value;
+      }
+      return result;
+    };
+    const operand = (paths: string[], values: readonly unknown[]) =>
+      random() < 0.5 ? { ref: pick(paths) } : pick(values);
+    const comparison = (): Condition => {
+      const operator = pick(["compare", "in", "contains", "exists"]);
+      const [path, right] =
+        operator === "in"
+          ? [pick(scalarPaths), operand(listPaths, lists.slice(2))]
+          : operator === "contains" || operator === "exists"
+          ? [
+              pick([...listPaths, ...scalarPaths]),
+              operand(scalarPaths, scalars),
+            ]
+          : [pick(scalarPaths), operand(scalarPaths, scalars)];
+      const condition =
+        operator === "exists"
+          ? { exists: path }
+          : {
+              [operator === "compare" ? pick(operators) : operator]: [
+                path,
+                right,
+              ],
+            };
+      return condition as unknown as Condition;
+    };
+    const condition = (depth: number): Condition => {
+      if (depth === 0 || random() < 0.3) return comparison();
+      const kind = pick(["and", "or", "not"]);
+      if (kind === "not") return { not: condition(depth - 1) };
+      const conditions = [condition(depth - 1), condition(depth - 1)];
+      return kind === "and" ? { and: conditions } : { or: conditions };
+    };
+
+    for (let i = 0; i < 300; i++) {
+      const tree = condition(3);
+      const handler = conditionHandler(tree);
+      for (let j = 0; j < 10; j++) {
+        const actor = record(["a", "b", "list"]);
+        const residual = residualCondition(tree, { actor });
+        for (let k = 0; k < 10; k++) {
+          const args = { actor, entity: record(["x", "y", "list"]) };
+          expect({
+            tree,
+            args,
+            allowed: evaluateCondition(residual, args),
+          }).toEqual({ tree, args, allowed: handler(args) as boolean });
+        }
+      }
+    }
+  });
+
+  it("should simplify raw conditions", () => {
+    expect(
+      residualCondition(
+        { not: { and: [{ gt: ["actor.age", 17] }, { exists: "entity.id" }] } },
+        { actor: { age: 30 } }
+      )
+    ).toEqual({ not: { exists: "entity.id" } });
+    expect(
+      residualCondition(
+        { not: { not: { exists: "entity.id" } } },
+        { actor: {} }
+      )
+    ).toEqual({ exists: "entity.id" });
+  });
+
+  it("should refuse actions without a declarative condition", () => {
+    const postDef = createPermissionDefinition("post", {
+      read: ({ actor }: { actor: User; entity: Document }) => !!actor,
+    });
+    const permissions = createPermissions([postDef]);
+
+    expect(() => permissions.residual("post", "read", { actor: user })).toThrow(
+      QueryCompileError
+    );
+    expect(() =>
+      permissions.residual("post", "read", {
+        actor: user,
+        // @ts-expect-error - the entity must be a Document
+        entity: { id: 1 },
+      })
+    ).toThrow(QueryCompileError);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  createRoles,
+  deny,
+  forbid,
+} from "../src/index";
+
+type User = {
+  id: string;
+  role?: "admin" | "editor" | "viewer" | "guest";
+  roles?: string[];
+};
+type Post = { id: string; authorId: string; published: boolean };
+
+describe("Roles", () => {
+  const admin: User = { id: "1", role: "admin" };
+  const editor: User = { id: "2", role: "editor" };
+  const viewer: User = { id: "3", role: "viewer" };
+  const guest: User = { id: "4", role: "guest" };
+  const post: Post = { id: "post1", authorId: "3", published: false };
+
+  const postDef = createPermissionDefinition("post", {
+    read: ({ entity }: { actor: User; entity: Post }) => entity.published,
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.id === entity.authorId,
+    delete: () => deny("posts are never deleted"),
+  });
+  const commentDef = createPermissionDefinition("comment", {
+    create: ({ actor }: { actor: User; entity?: unknown }) =>
+      actor.role !== "guest",
+  });
+  const definitions = [postDef, commentDef] as const;
+
+  const roleMap = {
+    viewer: { post: ["read"] },
+    editor: { inherits: ["viewer"], post: ["edit"] },
+    admin: { inherits: ["editor"], post: ["*"], comment: ["*"] },
+  } as const;
+
+  it("should allow granted actions without running the handler", () => {
+    const permissions = createPermissions(definitions, {
+      roles: createRoles(roleMap),
+    });
+
+    expect(
+      permissions.can("post", "delete", { actor: admin, entity: post })
+    ).toBe(true);
+    expect(
+      permissions.explain("post", "edit", { actor: editor, entity: post })
+    ).toMatchObject({ allowed: true, reason: "Granted by role 'editor'" });
+    expect(
+      permissions.can("post", "read", { actor: editor, entity: post })
+    ).toBe(true);
+  });
+
+  it("should fall back to the handler in 'or' mode", () => {
+    const permissions = createPermissions(definitions, {
+      roles: createRoles(roleMap),
+    });
+
+    expect(
+      permissions.can("post", "edit", { actor: viewer, entity: post })
+    ).toBe(true);
+    expect(
+      permissions.can("post", "edit", { actor: guest, entity: post })
+    ).toBe(false);
+    expect(
+      permissions.can("comment", "create", { actor: viewer, entity: post })
+    ).toBe(true);
+  });
+
+  it("should require both the grant and the handler in 'and' mode", () => {
+    const permissions = createPermissions(definitions, {
+      roles: createRoles(roleMap, { combine: "and" }),
+    });
+
+    expect(
+      permissions.can("post", "edit", { actor: editor, entity: post })
+    ).toBe(false);
+    expect(
+      permissions.can("post", "edit", {
+        actor: editor,
+        entity: { ...post, authorId: "2" },
+      })
+    ).toBe(true);
+    expect(
+      permissions.explain("post", "edit", { actor: viewer, entity: post })
+    ).toMatchObject({ allowed: false, code: "ROLE_REQUIRED" });
+    expect(
+      permissions.can("post", "delete", { actor: admin, entity: post })
+    ).toBe(false);
+  });
+
+  it("should expand inherited roles", () => {
+    const roles = createRoles<typeof definitions>(roleMap);
+
+    expect(roles.rolesOf(admin).sort()).toEqual(["admin", "editor", "viewer"]);
+    expect(roles.rolesOf(guest)).toEqual([]);
+    expect(roles.grants(admin, "post", "read")).toBe(true);
+    expect(roles.grants(viewer, "post", "edit")).toBe(false);
+    expect(roles.grants(viewer, "comment", "create")).toBe(false);
+  });
+
+  it("should use a custom role extractor", () => {
+    const roles = createRoles<typeof definitions>(roleMap, {
+      rolesOf: (actor) => actor.roles,
+    });
+
+    expect(roles.grants({ id: "5", roles: ["editor"] }, "post", "edit")).toBe(
+      true
+    );
+    expect(roles.grants(admin, "post", "edit")).toBe(false);
+  });
+
+  it("should read a roles array by default", () => {
+    const roles = createRoles<typeof definitions>(roleMap);
+
+    expect(roles.grants({ id: "5", roles: ["viewer"] }, "post", "read")).toBe(
+      true
+    );
+  });
+
+  it("should reject unknown and cyclic inheritance", () => {
+    expect(() => createRoles({ editor: { inherits: ["viewer"] } })).toThrow(
+      "Role 'editor' inherits unknown role 'viewer'"
+    );
+    expect(() =>
+      createRoles({
+        a: { inherits: ["b"] },
+        b: { inherits: ["c"] },
+        c: { inherits: ["a"] },
+      })
+    ).toThrow("Role inheritance cycle: a -> b -> c -> a");
+  });
+
+  it("should run after the middleware given to createPermissions", () => {
+    const permissions = createPermissions(definitions, {
+      middleware: [
+        ({ ctx, next }) =>
+          ctx.actor.id === "1" ? deny("suspended", "SUSPENDED") : next(),
+      ],
+      roles: createRoles(roleMap),
+    });
+
+    expect(
+      permissions.explain("post", "read", { actor: admin, entity: post })
+    ).toMatchObject({ allowed: false, code: "SUSPENDED" });
+  });
+
+  it("should run after middleware added with use()", () => {
+    const permissions = createPermissions(definitions, {
+      roles: createRoles(roleMap),
+    }).use(({ ctx, next }) =>
+      ctx.actor.id === "1" ? deny("banned", "BANNED") : next()
+    );
+
+    expect(
+      permissions.explain("post", "read", { actor: admin, entity: post })
+    ).toMatchObject({ allowed: false, code: "BANNED" });
+    expect(
+      permissions.can("post", "edit", { actor: editor, entity: post })
+    ).toBe(true);
+  });
+
+  it("should not override instance-wide forbid rules", () => {
+    const permissions = createPermissions(definitions, {
+      roles: createRoles(roleMap),
+      rules: [
+        forbid(({ actor }: { actor: User }) => actor.id === "1", {
+          reason: "suspended",
+          code: "SUSPENDED",
+        }),
+      ],
+    });
+
+    expect(
+      permissions.explain("post", "edit", { actor: admin, entity: post })
+    ).toMatchObject({ allowed: false, code: "SUSPENDED" });
+    expect(
+      permissions.explain("post", "edit", { actor: editor, entity: post })
+    ).toMatchObject({ allowed: true, reason: "Granted by role 'editor'" });
+  });
+
+  it("should be visible in the audit log", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions(definitions, {
+      roles: createRoles(roleMap),
+      audit: { sink },
+    });
+
+    permissions.can("post", "edit", { actor: editor, entity: post });
+
+    expect(sink.events[0]).toMatchObject({
+      allowed: true,
+      reason: "Granted by role 'editor'",
+    });
+  });
+
+  it("should type-check resource and action names", () => {
+    createPermissions(definitions, {
+      roles: createRoles({
+        // @ts-expect-error - 'publish' is not an action of 'post'
+        editor: { post: ["publish"] },
+      }),
+    });
+    createPermissions(definitions, {
+      roles: createRoles({
+        // @ts-expect-error - 'user' is not a registered resource
+        editor: { user: ["read"] },
+      }),
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  simulate,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "editor" | "user" };
+type Post = { id: string; authorId: string; published: boolean };
+type Comment = { id: string; authorId: string };
+
+describe("Policy simulation", () => {
+  const admin: User = { id: "1", role: "admin" };
+  const editor: User = { id: "2", role: "editor" };
+  const author: User = { id: "3", role: "user" };
+  const draft: Post = { id: "p1", authorId: "3", published: false };
+  const published: Post = { id: "p2", authorId: "3", published: true };
+  const comment: Comment = { id: "c1", authorId: "3" };
+
+  const postDef = createPermissionDefinition("post", {
+    read: ({ actor, entity }: { actor: User; entity: Post }) =>
+      entity.published || actor.id === entity.authorId,
+    edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+      actor.role === "admin" || actor.id === entity.authorId,
+  });
+  const commentDef = createPermissionDefinition("comment", {
+    delete: ({ actor, entity }: { actor: User; entity: Comment }) =>
+      actor.role === "admin" || actor.id === entity.authorId,
+  });
+
+  const current = createPermissions([postDef, commentDef]);
+  const fixtures = {
+    actors: [admin, editor, author],
+    entities: { post: [draft, published], comment: [comment] },
+  };
+
+  it("should report nothing for identical permissions", async () => {
+    const report = await simulate(current, current, fixtures);
+
+    expect(report).toMatchObject({ checked: 15, changed: 0, groups: [] });
+    expect(report.toTable()).toBe("No decisions changed (15 checked)");
+  });
+
+  it("should leave audit logs and decision caches untouched", async () => {
+    let calls = 0;
+    const sink = createMemoryAuditSink();
+    const counted = createPermissionDefinition("post", {
+      read: ({ actor, entity }: { actor: User; entity: Post }) => {
+        calls++;
+        return entity.published || actor.id === entity.authorId;
+      },
+    });
+    const audited = createPermissions([counted], {
+      audit: { sink },
+      cache: { ttl: 60_000 },
+    });
+
+    await simulate(audited, current, fixtures);
+    expect(sink.events).toHaveLength(0);
+    expect(calls).toBe(6);
+
+    audited.can("post", "read", { actor: admin, entity: draft });
+    expect(sink.events).toHaveLength(1);
+    expect(calls).toBe(7);
+  });
+
+  it("should group flipped decisions by resource and action", async () => {
+    const proposed = createPermissions([
+      createPermissionDefinition("post", {
+        ...postDef.handlers,
+        // Editors may now edit any post, but authors lose published ones
+        edit: ({ actor, entity }: { actor: User; entity: Post }) =>
+          actor.role !== "user" ||
+          (actor.id === entity.authorId && !entity.published),
+      }),
+      commentDef,
+    ]);
+
+    const report = await simulate(current, proposed, fixtures);
+    expect(report.checked).toBe(15);
+    expect(report.changed).toBe(3);
+    expect(report.groups).toEqual([
+      {
+        resource: "post",
+        action: "edit",
+        checked: 6,
+        changes: [
+          {
+            actor: editor,
+            entity: draft,
+            attributes: undefined,
+            before: "denied",
+            after: "allowed",
+          },
+          {
+            actor: editor,
+            entity: published,
+            attributes: undefined,
+            before: "denied",
+            after: "allowed",
+          },
+          {
+            actor: author,
+            entity: published,
+            attributes: undefined,
+            before: "allowed",
+            after: "denied",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should render a table and JSON", async () => {
+    const proposed = createPermissions([
+      postDef,
+      createPermissionDefinition("comment", {
+        delete: ({ actor }: { actor: User; entity: Comment }) =>
+          actor.role === "admin",
+      }),
+    ]);
+
+    const report = await simulate(current, proposed, fixtures);
+    expect(report.toTable()).toBe(
+      [
+        "comment delete (1 of 3 changed)",
+        "  actor  entity  attributes  before   after",
+        "  3      c1      -           allowed  denied",
+        "",
+        "1 of 15 decisions changed",
+      ].join("\n")
+    );
+    expect(JSON.parse(JSON.stringify(report))).toEqual({
+      checked: 15,
+      changed: 1,
+      groups: [
+        {
+          resource: "comment",
+          action: "delete",
+          checked: 3,
+          changes: [
+            {
+              actor: author,
+              entity: comment,
+              before: "allowed",
+              after: "denied",
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should report added, removed and failing actions", async () => {
+    const proposed = createPermissions([
+      createPermissionDefinition("post", {
+        read: postDef.handlers.read,
+        publish: ({ actor }: { actor: User; entity: Post }) =>
+          actor.role === "admin",
+      }),
+      createPermissionDefinition("comment", {
+        delete: ({ entity }: { actor: User; entity: Comment }): boolean => {
+          throw new Error(`comment ${entity.id} is locked`);
+        },
+      }),
+    ]);
+
+    const report = await simulate(current, proposed, {
+      actors: [admin],
+      entities: { post: [draft], comment: [comment] },
+    });
+    expect(
+      report.groups.map(({ resource, action, changes }) => [
+        `${resource} ${action}`,
+        changes.map((change) => `${change.before} -> ${change.after}`),
+      ])
+    ).toEqual([
+      ["post edit", ["allowed -> missing"]],
+      ["comment delete", ["allowed -> error"]],
+      ["post publish", ["missing -> allowed"]],
+    ]);
+  });
+
+  it("should check every attribute set and use custom labels", async () => {
+    const reportDef = (limit: number) =>
+      createPermissionDefinition("report", {
+        export: ({
+          attributes,
+        }: {
+          actor: User;
+          attributes: { rows: number };
+        }) => attributes.rows <= limit,
+      });
+
+    const report = await simulate(
+      createPermissions([reportDef(100)]),
+      createPermissions([reportDef(10)]),
+      { actors: [author], attributes: [{ rows: 5 }, { rows: 50 }] },
+      { label: (value) => (value as { role?: string })?.role ?? "?" }
+    );
+    expect(report.changed).toBe(1);
+    expect(report.groups[0]?.changes[0]?.attributes).toEqual({ rows: 50 });
+    expect(report.toTable()).toContain(
+      "  user   ?       ?           allowed  denied"
+    );
+  });
+});
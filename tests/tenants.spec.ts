@@ -0,0 +1,248 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+  DuplicateResourceError,
+  TenantMismatchError,
+} from "../src/index";
+
+type User = {
+  id: string;
+  tenantId: string;
+  role: "employee" | "contractor";
+};
+type Doc = { id: string; internal: boolean };
+
+describe("Tenants", () => {
+  const acmeContractor: User = {
+    id: "1",
+    tenantId: "acme",
+    role: "contractor",
+  };
+  const globexContractor: User = {
+    id: "2",
+    tenantId: "globex",
+    role: "contractor",
+  };
+  const internalDoc: Doc = { id: "d1", internal: true };
+
+  const docDef = createPermissionDefinition("doc", {
+    read: ({ actor, entity }: { actor: User; entity: Doc }) =>
+      !entity.internal || actor.role === "employee",
+    delete: ({ actor }: { actor: User; entity: Doc }) =>
+      actor.role === "employee",
+  });
+
+  // Contractors may read internal docs at acme only
+  const acmeDocs = createPermissionDefinition("doc", {
+    read: ({ actor }: { actor: User; entity: Doc }) => !!actor,
+  });
+  const acmeInvoices = createPermissionDefinition("invoice", {
+    approve: ({ actor }: { actor: User }) => actor.role === "employee",
+  });
+
+  it("should apply a tenant's overrides on top of the base definitions", () => {
+    const permissions = createPermissions([docDef], {
+      tenants: { acme: [acmeDocs, acmeInvoices] },
+    });
+    const acme = permissions.forTenant("acme");
+    const ctx = { actor: acmeContractor, entity: internalDoc };
+
+    expect(acme.can("doc", "read", ctx)).toBe(true);
+    expect(acme.can("doc", "delete", ctx)).toBe(false);
+    expect(permissions.can("doc", "read", ctx)).toBe(false);
+    expect(
+      permissions
+        .forTenant("globex")
+        .can("doc", "read", { actor: globexContractor, entity: internalDoc })
+    ).toBe(false);
+
+    expect<string[]>(acme.resources()).toEqual(["doc", "invoice"]);
+    expect(permissions.resources()).toEqual(["doc"]);
+    expect(permissions.forTenant("acme")).toBe(acme);
+  });
+
+  it("should refuse contexts of another tenant", async () => {
+    const permissions = createPermissions([docDef], {
+      tenants: { acme: [acmeDocs] },
+    });
+    const acme = permissions.forTenant("acme");
+    const ctx = { actor: globexContractor, entity: internalDoc };
+
+    expect(() => acme.can("doc", "read", ctx)).toThrow(TenantMismatchError);
+    expect(() =>
+      acme.get("doc").can(globexContractor).read(internalDoc).check()
+    ).toThrow(
+      "Permissions for tenant 'acme' used with a context of tenant 'globex'"
+    );
+    await expect(acme.authorize("doc", "read", ctx)).rejects.toThrow(
+      TenantMismatchError
+    );
+    expect(() => acme.redact("doc", globexContractor, internalDoc)).toThrow(
+      TenantMismatchError
+    );
+    expect(() =>
+      acme.can("doc", "read", {
+        actor: { id: "3", role: "employee" } as User,
+        entity: internalDoc,
+      })
+    ).toThrow("used without a tenant in the context");
+  });
+
+  it("should audit contexts of another tenant", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([docDef], {
+      audit: { sink },
+      tenants: { acme: [acmeDocs] },
+    });
+    const ctx = { actor: globexContractor, entity: internalDoc };
+
+    expect(() => permissions.forTenant("acme").can("doc", "read", ctx)).toThrow(
+      TenantMismatchError
+    );
+    expect(sink.events).toEqual([
+      expect.objectContaining({
+        resource: "doc",
+        action: "read",
+        actorId: "2",
+        allowed: false,
+        error: expect.objectContaining({ name: "TenantMismatchError" }),
+      }),
+    ]);
+  });
+
+  it("should keep middleware added to a tenant to that tenant", () => {
+    const permissions = createPermissions([docDef], {
+      tenants: { acme: [acmeDocs] },
+    });
+    const acme = permissions.forTenant("acme");
+    const globex = permissions.forTenant("globex");
+    const acmeCtx = { actor: acmeContractor, entity: internalDoc };
+    const globexCtx = {
+      actor: globexContractor,
+      entity: { ...internalDoc, internal: false },
+    };
+
+    acme.use(() => deny("frozen", "FROZEN"));
+    expect(acme.explain("doc", "read", acmeCtx)).toMatchObject({
+      allowed: false,
+      code: "FROZEN",
+    });
+    expect(globex.can("doc", "read", globexCtx)).toBe(true);
+    expect(permissions.can("doc", "read", globexCtx)).toBe(true);
+
+    permissions.use(({ ctx, next }) =>
+      ctx.actor.role === "contractor"
+        ? deny("contractor", "CONTRACTOR")
+        : next()
+    );
+    expect(globex.explain("doc", "read", globexCtx)).toMatchObject({
+      allowed: false,
+      code: "CONTRACTOR",
+    });
+    expect(acme.explain("doc", "read", acmeCtx)).toMatchObject({
+      code: "CONTRACTOR",
+    });
+  });
+
+  it("should reject adding a resource of the base to a tenant", () => {
+    const permissions = createPermissions([docDef], {
+      tenants: { acme: [acmeDocs] },
+    });
+    const globex = permissions.forTenant("globex");
+    const globexDocs = createPermissionDefinition("doc", {
+      read: ({ actor }: { actor: User; entity: Doc }) => !!actor,
+    });
+
+    expect(() => globex.add(globexDocs)).toThrow(DuplicateResourceError);
+    expect(() => permissions.forTenant("acme").add(globexDocs)).toThrow(
+      DuplicateResourceError
+    );
+
+    globex.add(globexDocs, { onConflict: "merge" });
+    expect(
+      globex.can("doc", "read", {
+        actor: globexContractor,
+        entity: internalDoc,
+      })
+    ).toBe(true);
+    expect(
+      globex.can("doc", "delete", {
+        actor: globexContractor,
+        entity: internalDoc,
+      })
+    ).toBe(false);
+  });
+
+  it("should read the tenant with tenantOf and load overrides lazily", () => {
+    const loaded: string[] = [];
+    const permissions = createPermissions([docDef], {
+      tenants: (tenantId) => {
+        loaded.push(tenantId);
+        return tenantId === "acme" ? [acmeDocs] : undefined;
+      },
+      tenantOf: ({ attributes }) => attributes?.tenant,
+    });
+    const ctx = {
+      actor: acmeContractor,
+      entity: internalDoc,
+      attributes: { tenant: "acme" },
+    };
+
+    expect(permissions.forTenant("acme").can("doc", "read", ctx)).toBe(true);
+    expect(permissions.forTenant("acme").can("doc", "read", ctx)).toBe(true);
+    expect(() =>
+      permissions.forTenant("globex").can("doc", "read", ctx)
+    ).toThrow(TenantMismatchError);
+    expect(loaded).toEqual(["acme", "globex"]);
+  });
+
+  it("should keep definitions and caches separate per tenant", () => {
+    let calls = 0;
+    const counted = createPermissionDefinition("doc", {
+      read: ({ actor }: { actor: User; entity: Doc }) => {
+        calls++;
+        return actor.role === "employee";
+      },
+    });
+    const permissions = createPermissions([counted], {
+      cache: { ttl: 60_000 },
+      tenants: { acme: [acmeDocs] },
+    });
+    const globex = permissions.forTenant("globex");
+    const ctx = { actor: globexContractor, entity: internalDoc };
+
+    permissions.forTenant("acme").add(acmeInvoices);
+    expect(permissions.has("invoice")).toBe(false);
+    expect(globex.has("invoice")).toBe(false);
+
+    expect(permissions.can("doc", "read", ctx)).toBe(false);
+    expect(globex.can("doc", "read", ctx)).toBe(false);
+    expect(globex.can("doc", "read", ctx)).toBe(false);
+    expect(calls).toBe(2);
+
+    permissions.invalidate();
+    expect(globex.can("doc", "read", ctx)).toBe(false);
+    expect(calls).toBe(3);
+  });
+
+  it("should resolve dry tenant instances from a dry run", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([docDef], {
+      audit: { sink },
+      tenants: { acme: [acmeDocs] },
+    });
+    const ctx = { actor: acmeContractor, entity: internalDoc };
+
+    expect(permissions.dryRun().forTenant("acme").can("doc", "read", ctx)).toBe(
+      true
+    );
+    expect(sink.events).toHaveLength(0);
+
+    permissions.forTenant("acme").can("doc", "read", ctx);
+    permissions.dryRun().forTenant("acme").can("doc", "read", ctx);
+    expect(sink.events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from "bun:test";
+import {
+  allow,
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  deny,
+  HandlerTimeoutError,
+  type Args,
+} from "../src/index";
+
+type User = { id: string };
+type Report = { id: string };
+
+describe("Timeouts and error policy", () => {
+  const user: User = { id: "1" };
+  const report: Report = { id: "r1" };
+
+  const never = () => new Promise<boolean>(() => {});
+  // The signal the slow handler received, read through its public members
+  let seen: { aborted: boolean; reason: unknown } | undefined;
+
+  const reportDef = createPermissionDefinition("report", {
+    view: (_: Args<User, Report>) => true,
+    fetch: async (_: Args<User, Report>) => {
+      throw new Error("connection refused");
+    },
+    crash: (_: Args<User, Report>): boolean => {
+      throw new TypeError("bad entity");
+    },
+    slow: ({ signal }: Args<User, Report>) => {
+      seen = signal as unknown as typeof seen;
+      return never();
+    },
+  });
+
+  it("should rethrow handler errors by default", async () => {
+    const permissions = createPermissions([reportDef]);
+
+    expect(() =>
+      permissions.can("report", "crash", { actor: user, entity: report })
+    ).toThrow("bad entity");
+    await expect(
+      permissions.can("report", "fetch", { actor: user, entity: report })
+    ).rejects.toThrow("connection refused");
+  });
+
+  it("should fail closed with the deny policy", async () => {
+    const permissions = createPermissions([reportDef], { errorPolicy: "deny" });
+
+    expect(
+      permissions.can("report", "crash", { actor: user, entity: report })
+    ).toBe(false);
+    expect(
+      await permissions.explain("report", "fetch", {
+        actor: user,
+        entity: report,
+      })
+    ).toMatchObject({
+      allowed: false,
+      failure: "error",
+      code: "HANDLER_ERROR",
+      reason: "connection refused",
+      error: { name: "Error", message: "connection refused" },
+    });
+    expect(
+      permissions.explain("report", "view", { actor: user, entity: report })
+    ).not.toHaveProperty("failure");
+  });
+
+  it("should abort handlers that exceed the timeout", async () => {
+    const permissions = createPermissions([reportDef], { timeout: 10 });
+
+    const check = permissions.can("report", "slow", {
+      actor: user,
+      entity: report,
+    });
+    await expect(check).rejects.toBeInstanceOf(HandlerTimeoutError);
+    expect(seen?.aborted).toBe(true);
+    expect(seen?.reason).toMatchObject({
+      resource: "report",
+      action: "slow",
+      timeoutMs: 10,
+    });
+  });
+
+  it("should report timeouts and errors as distinct outcomes", async () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([reportDef], {
+      timeout: 10,
+      errorPolicy: "deny",
+      audit: { sink },
+    });
+    const ctx = { actor: user, entity: report };
+
+    expect(await permissions.explain("report", "slow", ctx)).toMatchObject({
+      allowed: false,
+      failure: "timeout",
+      code: "TIMEOUT",
+      error: { name: "HandlerTimeoutError" },
+    });
+    await permissions.can("report", "fetch", ctx);
+    permissions.can("report", "view", ctx);
+
+    expect(
+      sink.events.map(({ action, allowed, failure, error }) => ({
+        action,
+        allowed,
+        failure,
+        error: error?.name,
+      }))
+    ).toEqual([
+      {
+        action: "slow",
+        allowed: false,
+        failure: "timeout",
+        error: "HandlerTimeoutError",
+      },
+      { action: "fetch", allowed: false, failure: "error", error: "Error" },
+      { action: "view", allowed: true, failure: undefined, error: undefined },
+    ]);
+  });
+
+  it("should record failures in the audit log when rethrowing", async () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([reportDef], {
+      timeout: 10,
+      audit: { sink },
+    });
+    const ctx = { actor: user, entity: report };
+
+    await expect(permissions.can("report", "slow", ctx)).rejects.toThrow();
+    await expect(permissions.can("report", "fetch", ctx)).rejects.toThrow();
+    expect(sink.events.map((event) => event.failure)).toEqual([
+      "timeout",
+      "error",
+    ]);
+  });
+
+  it("should use a custom fallback", async () => {
+    const failures: string[] = [];
+    const permissions = createPermissions([reportDef], {
+      timeout: 10,
+      errorPolicy: (error, { action, failure }) => {
+        failures.push(`${action}:${failure}`);
+        return failure === "timeout"
+          ? allow("served from replica")
+          : deny("unavailable", "UNAVAILABLE");
+      },
+    });
+    const ctx = { actor: user, entity: report };
+
+    expect(await permissions.explain("report", "slow", ctx)).toMatchObject({
+      allowed: true,
+      reason: "served from replica",
+      failure: "timeout",
+    });
+    expect(permissions.explain("report", "crash", ctx)).toMatchObject({
+      allowed: false,
+      code: "UNAVAILABLE",
+      failure: "error",
+      error: { name: "TypeError", message: "bad entity" },
+    });
+    expect(failures).toEqual(["slow:timeout", "crash:error"]);
+  });
+
+  it("should take per-action options from the definition", async () => {
+    const overridden = createPermissionDefinition(
+      "report",
+      reportDef.handlers,
+      {
+        timeout: { slow: 10 },
+        errorPolicy: { fetch: "deny" },
+      }
+    );
+    const permissions = createPermissions([overridden], {
+      errorPolicy: "throw",
+    });
+    const ctx = { actor: user, entity: report };
+
+    expect(await permissions.can("report", "fetch", ctx)).toBe(false);
+    await expect(permissions.can("report", "slow", ctx)).rejects.toBeInstanceOf(
+      HandlerTimeoutError
+    );
+    expect(() => permissions.can("report", "crash", ctx)).toThrow(TypeError);
+  });
+
+  it("should pass the caller's signal to handlers and honor it", async () => {
+    const permissions = createPermissions([reportDef], {
+      timeout: 1000,
+      errorPolicy: "deny",
+    });
+    const check = permissions.can("report", "slow", {
+      actor: user,
+      entity: report,
+      signal: AbortSignal.abort(new Error("request closed")),
+    });
+
+    await expect(check).rejects.toThrow("request closed");
+    expect(seen?.aborted).toBe(true);
+  });
+
+  it("should honor the caller's signal with default options", async () => {
+    const permissions = createPermissions([reportDef]);
+    const controller = new AbortController() as unknown as {
+      signal: AbortSignal;
+      abort(reason?: unknown): void;
+    };
+    const check = permissions.can("report", "slow", {
+      actor: user,
+      entity: report,
+      signal: controller.signal,
+    });
+    controller.abort(new Error("request closed"));
+
+    await expect(check).rejects.toThrow("request closed");
+    expect(seen?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "bun:test";
+import {
+  ArgsValidationError,
+  createMemoryAuditSink,
+  createPermissionDefinition,
+  createPermissions,
+  createRoles,
+  type Validator,
+} from "../src/index";
+
+type User = { id: string; role: "admin" | "user" };
+type Post = { id: string; authorId: string };
+
+// A schema in the style of zod: parse() returns the value or throws
+const schema = <T>(check: (value: any) => value is T): Validator<T> => ({
+  parse(value: unknown) {
+    if (!check(value)) throw new TypeError("Unexpected value");
+    return value;
+  },
+});
+
+const UserSchema = schema(
+  (value): value is User =>
+    typeof value?.id === "string" && ["admin", "user"].includes(value?.role)
+);
+const PostSchema = schema(
+  (value): value is Post =>
+    typeof value?.id === "string" && typeof value?.authorId === "string"
+);
+
+describe("Argument validation", () => {
+  const admin: User = { id: "1", role: "admin" };
+  const author: User = { id: "2", role: "user" };
+  const post: Post = { id: "p1", authorId: "2" };
+
+  const postDef = createPermissionDefinition(
+    "post",
+    {
+      create: ({ actor }) => actor.role === "admin",
+      edit: ({ actor, entity }) =>
+        actor.role === "admin" || actor.id === entity.authorId,
+    },
+    {
+      validate: {
+        actor: UserSchema,
+        actions: { edit: { entity: PostSchema } },
+      },
+    }
+  );
+
+  it("should type handlers from the validators", () => {
+    const args: Parameters<typeof postDef.handlers.edit>[0] = {
+      actor: author,
+      entity: post,
+    };
+    expect(postDef.handlers.edit(args)).toBe(true);
+
+    const permissions = createPermissions([postDef]);
+    expect(() =>
+      // @ts-expect-error - the entity must be a Post
+      permissions.can("post", "edit", { actor: author, entity: { id: "p1" } })
+    ).toThrow(ArgsValidationError);
+  });
+
+  it("should reject invalid arguments before the handler runs", () => {
+    const permissions = createPermissions([postDef]);
+
+    expect(() =>
+      permissions.can("post", "create", {
+        actor: null as unknown as User,
+        entity: post,
+      })
+    ).toThrow(ArgsValidationError);
+    expect(() =>
+      permissions.can("post", "edit", {
+        actor: author,
+        entity: { id: "p1" } as Post,
+      })
+    ).toThrow(
+      "Invalid entity for action 'edit' on resource 'post': Unexpected value"
+    );
+    expect(
+      permissions.can("post", "edit", { actor: author, entity: post })
+    ).toBe(true);
+  });
+
+  it("should deny invalid arguments with the deny policy", () => {
+    const sink = createMemoryAuditSink();
+    const permissions = createPermissions([postDef], {
+      errorPolicy: "deny",
+      audit: { sink },
+    });
+
+    expect(
+      permissions.explain("post", "create", {
+        actor: { id: "3", role: "root" } as unknown as User,
+        entity: post,
+      })
+    ).toMatchObject({
+      allowed: false,
+      failure: "invalid",
+      code: "INVALID_ARGS",
+      error: { name: "ArgsValidationError" },
+    });
+    expect(
+      permissions.can("post", "create", { actor: admin, entity: post })
+    ).toBe(true);
+    expect(sink.events.map((event) => event.failure)).toEqual([
+      "invalid",
+      undefined,
+    ]);
+  });
+
+  it("should validate before role grants and middleware", () => {
+    const seen: unknown[] = [];
+    const permissions = createPermissions([postDef], {
+      roles: createRoles({ admin: { post: ["*"] } }),
+      middleware: [
+        ({ ctx, next }) => {
+          seen.push(ctx.entity);
+          return next();
+        },
+      ],
+    });
+    const invalid = { id: "p1" } as Post;
+
+    expect(() =>
+      permissions.can("post", "edit", { actor: admin, entity: invalid })
+    ).toThrow(ArgsValidationError);
+    expect(
+      permissions.can("post", "edit", { actor: admin, entity: post })
+    ).toBe(true);
+    expect(seen).toEqual([post]);
+
+    const denying = createPermissions([postDef], {
+      roles: createRoles({ admin: { post: ["*"] } }),
+      errorPolicy: "deny",
+    });
+    expect(
+      denying.explain("post", "edit", { actor: admin, entity: invalid })
+    ).toMatchObject({ allowed: false, failure: "invalid" });
+  });
+
+  it("should pass parsed values to the handler", () => {
+    const seen: unknown[] = [];
+    const commentDef = createPermissionDefinition(
+      "comment",
+      {
+        read: ({ actor, attributes }) => {
+          seen.push(actor, attributes);
+          return attributes.limit <= 10;
+        },
+      },
+      {
+        validate: {
+          actor: UserSchema,
+          attributes: (value: unknown) => ({
+            limit: Number((value as { limit?: unknown })?.limit ?? 10),
+          }),
+        },
+      }
+    );
+    const permissions = createPermissions([commentDef]);
+
+    expect(
+      permissions.can("comment", "read", {
+        actor: admin,
+        attributes: { limit: 5 },
+      })
+    ).toBe(true);
+    expect(
+      permissions.can("comment", "read", {
+        actor: admin,
+        attributes: { limit: 50 },
+      })
+    ).toBe(false);
+    expect(seen).toEqual([admin, { limit: 5 }, admin, { limit: 50 }]);
+  });
+});